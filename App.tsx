@@ -1,8 +1,16 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import GameBoard from './src/components/GameBoard';
 import GameLobby from './src/components/GameLobby';
-import { Player } from './types';
+import WaitingRoom from './src/components/WaitingRoom';
+import MatchStandings from './src/components/MatchStandings';
+import { ClientMessage, GameAction, GameLog, GameState, Match, NewGameOptions, OnlineSession, Player, RoomInfo, RuleSet, SavedGame, ServerMessage, TableTransport } from './types';
 import { generateAvatar } from './src/services/avatarService';
+import { STANDARD_RULES, createMatch, createRng, generateSeed, getMatchGameSeed, getMatchPlayers, getMatchStandings, isMatchOver, normalizeSeed, recordMatchGame } from './src/engine';
+import { clearSavedGame, loadSavedGame } from './src/services/saveGameService';
+import { loadPlayerModel } from './src/services/playerModelService';
+import { MultiplayerConnection, connectToServer, getRememberedSeat, rememberSeat } from './src/services/multiplayerService';
+import { connectToLocalTable } from './src/services/localTableService';
+import { EXTERNAL_BOT, PERSONALITIES, getPersonalityForBot } from './src/bots';
 import { GameMode } from './types';
 import { useEffect } from 'react';
 
@@ -12,6 +20,20 @@ const App: React.FC = () => {
   const [gameMode, setGameMode] = useState<GameMode>(GameMode.VS_BOTS);
   const [numberOfPlayers, setNumberOfPlayers] = useState<number>(3);
   const [loadingAvatars, setLoadingAvatars] = useState<boolean>(false);
+  const [seed, setSeed] = useState<string>('');
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(() => loadSavedGame());
+  const [resumeLog, setResumeLog] = useState<GameLog | undefined>(undefined);
+  const [match, setMatch] = useState<Match | undefined>(undefined);
+  const [finalStandings, setFinalStandings] = useState<{ match: Match; players: Player[] } | null>(null);
+  // Every game of a match is played by the house rules it started with
+  const [rules, setRules] = useState<RuleSet>(STANDARD_RULES);
+  // Play with Friends: the server connection, the room joined and the latest table the server sent
+  const connectionRef = useRef<MultiplayerConnection | null>(null);
+  const transportRef = useRef<TableTransport>(TableTransport.SERVER);
+  const [room, setRoom] = useState<RoomInfo | null>(null);
+  const [onlinePlayerId, setOnlinePlayerId] = useState<string>('');
+  const [serverState, setServerState] = useState<{ state: GameState; action?: GameAction } | null>(null);
+  const [onlineError, setOnlineError] = useState<string | null>(null);
 
   useEffect(() => {
     // A simple way to inject a style tag for the font
@@ -26,13 +48,25 @@ const App: React.FC = () => {
   }, []);
 
 
-  const startGame = async (numPlayers: number, mode: GameMode) => {
+  const startGame = async ({ numPlayers, mode, seed: requestedSeed, humanPlayers = 1, botNames = [], botUrl, playerName, match: matchSettings, rules: gameRules = STANDARD_RULES }: NewGameOptions) => {
     setLoadingAvatars(true);
     setNumberOfPlayers(numPlayers);
     setGameMode(mode);
+    const gameSeed = normalizeSeed(requestedSeed ?? '') || generateSeed();
+    setSeed(gameSeed);
+    setRules(gameRules);
+    // A match's first game is dealt like a single game; after that the deal moves round the table
+    setMatch(matchSettings ? createMatch(matchSettings, gameSeed, Math.floor(createRng(`${gameSeed}:dealer`)() * numPlayers)) : undefined);
+    setFinalStandings(null);
+    // Starting over replaces any game that was saved before
+    clearSavedGame();
+    setSavedGame(null);
+    setResumeLog(undefined);
 
     // FIX: Initialize hand and playedCards for new Player object
-    const newPlayers: Player[] = [{ id: 'player1', name: 'You', isHuman: true, avatar: '', hand: [], playedCards: [] }];
+    // In pass-and-play the first seats are the humans sharing the device
+    const isPassAndPlay = mode === GameMode.PASS_AND_PLAY;
+    const newPlayers: Player[] = [{ id: 'player1', name: isPassAndPlay ? 'Player 1' : playerName?.trim() || 'You', isHuman: true, avatar: '', hand: [], playedCards: [], score: 0 }];
     
     const avatarPrompts = [
       "A clever fox in a fantasy tavern, vector art",
@@ -43,10 +77,32 @@ const App: React.FC = () => {
     const avatarPromises: Promise<string>[] = [generateAvatar("A heroic human card player, vector art")];
 
     for (let i = 2; i <= numPlayers; i++) {
-      const isBot = mode === GameMode.VS_BOTS;
+      const isBot = mode === GameMode.VS_BOTS || (isPassAndPlay && i > humanPlayers);
       // FIX: Initialize hand and playedCards for new Player object
-      newPlayers.push({ id: `player${i}`, name: isBot ? `Bot ${i-1}` : `Player ${i}`, isHuman: false, avatar: '', hand: [], playedCards: [] });
-      avatarPromises.push(generateAvatar(avatarPrompts[i-2]));
+      const botNumber = i - (isPassAndPlay ? humanPlayers : 1);
+      const personality = isBot ? getPersonalityForBot(botNumber - 1) : undefined;
+      newPlayers.push({
+        id: `player${i}`,
+        name: personality ? PERSONALITIES[personality].name : `Player ${i}`,
+        isHuman: isPassAndPlay && !isBot,
+        avatar: '',
+        hand: [],
+        playedCards: [],
+        score: 0,
+        botName: isBot ? botNames[botNumber - 1] : undefined,
+        botUrl: isBot && botNames[botNumber - 1] === EXTERNAL_BOT ? botUrl : undefined,
+        botPersonality: personality,
+      });
+      avatarPromises.push(generateAvatar(personality ? PERSONALITIES[personality].avatarPrompt : avatarPrompts[i-2]));
+    }
+    // Bots play against what they have learned of each human, who is known by name
+    newPlayers.forEach(player => {
+      if (player.isHuman) player.tendencies = loadPlayerModel(player.name);
+    });
+    if (matchSettings?.chips) {
+      newPlayers.forEach(player => {
+        player.chips = matchSettings.chips!.startingChips;
+      });
     }
 
     try {
@@ -84,9 +140,110 @@ const App: React.FC = () => {
     }
   };
 
+  const resumeGame = () => {
+    if (!savedGame) return;
+    const { log } = savedGame;
+    setPlayers(log.players);
+    setNumberOfPlayers(log.players.length);
+    setSeed(log.seed ?? generateSeed());
+    setMatch(savedGame.match);
+    setRules(log.rules ?? STANDARD_RULES);
+    setResumeLog(log);
+    setGameStarted(true);
+  };
+
+  const handleServerMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'JOINED':
+        setOnlinePlayerId(message.playerId);
+        rememberSeat(message.code, message.token);
+        break;
+      case 'ROOM':
+        setRoom(message.room);
+        break;
+      case 'STATE':
+        setServerState({ state: message.state, action: message.action });
+        break;
+      case 'ERROR':
+        console.warn(`[SERVER] ${message.message}`);
+        setOnlineError(message.message);
+        break;
+    }
+  };
+
+  const resetOnline = () => {
+    connectionRef.current = null;
+    setRoom(null);
+    setServerState(null);
+  };
+
+  // Connects on first use; every room message goes over the same connection until the transport changes
+  const sendToTable = async (message: ClientMessage, transport: TableTransport = transportRef.current) => {
+    setOnlineError(null);
+    try {
+      if (connectionRef.current && transportRef.current !== transport) {
+        const previous = connectionRef.current;
+        connectionRef.current = null;
+        previous.close();
+      }
+      if (!connectionRef.current) {
+        const connect = transport === TableTransport.BROWSER_TABS ? connectToLocalTable : connectToServer;
+        transportRef.current = transport;
+        connectionRef.current = await connect(handleServerMessage, () => {
+          if (!connectionRef.current) return; // Closed on purpose by leaveRoom
+          resetOnline();
+          setOnlineError('Lost the connection to the table.');
+        });
+      }
+      connectionRef.current.send(message);
+    } catch (error) {
+      setOnlineError(error instanceof Error ? error.message : 'Could not reach the game server.');
+    }
+  };
+
+  const createRoom = (name: string, seatCount: number, transport: TableTransport, roomRules?: RuleSet) =>
+    sendToTable({ type: 'CREATE_ROOM', name, seatCount, rules: roomRules }, transport);
+
+  const joinRoom = (code: string, name: string, transport: TableTransport) => {
+    const normalizedCode = code.trim().toUpperCase();
+    sendToTable({ type: 'JOIN_ROOM', code: normalizedCode, name, token: getRememberedSeat(normalizedCode) }, transport);
+  };
+
+  const leaveRoom = () => {
+    const connection = connectionRef.current;
+    resetOnline();
+    connection?.close();
+  };
+
+  const onlineSession = useMemo<OnlineSession | undefined>(() => serverState && room ? {
+    roomCode: room.code,
+    state: serverState.state,
+    lastAction: serverState.action,
+    sendAction: (action: GameAction) => connectionRef.current?.send({ type: 'ACTION', action }),
+  } : undefined, [serverState, room?.code]);
+
+  // Scores and chips carry over into the next game of a match, until the match is decided; players out of chips sit it out
+  const nextMatchGame = (finalState: GameState) => {
+    if (!match) return;
+    const played = recordMatchGame(match, finalState);
+    setMatch(played);
+    setResumeLog(undefined);
+    if (isMatchOver(played, finalState.players)) {
+      setFinalStandings({ match: played, players: finalState.players });
+      setGameStarted(false);
+      return;
+    }
+    setPlayers(getMatchPlayers(played, finalState.players));
+    setSeed(getMatchGameSeed(played));
+  };
+
   const quitGame = () => {
+    setMatch(undefined);
+    setFinalStandings(null);
     setGameStarted(false);
     setPlayers([]);
+    setResumeLog(undefined);
+    setSavedGame(loadSavedGame());
   };
 
   return (
@@ -106,8 +263,40 @@ const App: React.FC = () => {
                 <p className="mt-4 text-lg sm:text-xl text-center px-4">Generating amazing avatars...</p>
             </div>
         )}
-        {!gameStarted && !loadingAvatars && <GameLobby onStartGame={startGame} />}
-        {gameStarted && !loadingAvatars && <GameBoard players={players} onQuit={quitGame} />}
+        {finalStandings && (
+          <div className="flex items-center justify-center h-full">
+            <div className="bg-gray-800 p-8 rounded-xl shadow-2xl border-2 border-cyan-400 w-full max-w-lg text-center">
+              <h2 className="text-3xl font-bold text-cyan-300 mb-2">Match Over!</h2>
+              <p className="text-xl text-yellow-400 mb-6">{getMatchStandings(finalStandings.match, finalStandings.players)[0].player.name} wins the match</p>
+              <MatchStandings match={finalStandings.match} players={finalStandings.players} />
+              <button
+                onClick={quitGame}
+                className="mt-6 w-full bg-green-600 hover:bg-green-500 text-white font-bold py-4 text-xl rounded-lg shadow-lg transition-transform duration-200 transform hover:scale-105"
+              >
+                Back to Lobby
+              </button>
+            </div>
+          </div>
+        )}
+        {!gameStarted && !loadingAvatars && !room && !finalStandings && (
+          <GameLobby
+            onStartGame={startGame}
+            savedGame={savedGame}
+            onResumeGame={resumeGame}
+            onCreateRoom={createRoom}
+            onJoinRoom={joinRoom}
+            onlineError={onlineError}
+          />
+        )}
+        {room && !onlineSession && (
+          <WaitingRoom room={room} playerId={onlinePlayerId} onStart={() => sendToTable({ type: 'START_GAME' })} onLeave={leaveRoom} />
+        )}
+        {onlineSession && (
+          <GameBoard key={onlineSession.roomCode} players={onlineSession.state.players} seed="" online={onlineSession} onQuit={leaveRoom} />
+        )}
+        {gameStarted && !loadingAvatars && (
+          <GameBoard key={seed} players={players} seed={seed} resumeLog={resumeLog} match={match} rules={rules} onNextGame={nextMatchGame} onQuit={quitGame} />
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,81 @@
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { getRegisteredBots } from '../src/bots';
+import { RULE_SETS } from '../src/engine';
+import { RuleSet } from '../types';
+import { runSimulation } from '../src/simulation/simulator';
+
+// Plays bot-vs-bot games from the command line and prints how each bot did. For example:
+//   npm run simulate -- --games 500 --seats beginner,standard,expert --seed TUNING
+// Add --json for the raw report, or --fixed-seats to keep every bot in its seat. --rules plays by house
+// rules (standard, quick or family). --register loads a module that calls registerBot (from src/bots), so
+// a custom bot can take a seat by its name.
+const USAGE = 'Usage: npm run simulate -- [--games N] [--seats standard,expert,...] [--seed SEED] [--rules standard|quick|family] [--register module.ts] [--fixed-seats] [--json]';
+
+const readOption = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+// Every value given for an option that may repeat
+const readOptions = (args: string[], name: string): string[] =>
+  args.flatMap((arg, i) => arg === `--${name}` && args[i + 1] !== undefined ? [args[i + 1]] : []);
+
+// Bot names are matched without regard to case
+const parseSeats = (value: string): string[] => value.split(',').map(name => {
+  const bot = getRegisteredBots().find(b => b.name.toUpperCase() === name.trim().toUpperCase());
+  if (!bot) throw new Error(`Unknown bot "${name}". Choose from ${getRegisteredBots().map(b => b.name).join(', ')}.`);
+  return bot.name;
+});
+
+// House rules are matched by id, without regard to case
+const parseRules = (value: string): RuleSet => {
+  const rules = Object.values(RULE_SETS).find(r => r.id === value.trim().toUpperCase());
+  if (!rules) throw new Error(`Unknown rules "${value}". Choose from ${Object.keys(RULE_SETS).join(', ')}.`);
+  return rules;
+};
+
+const percent = (rate: number): string => `${(rate * 100).toFixed(1)}%`;
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  for (const module of readOptions(args, 'register')) {
+    await import(pathToFileURL(resolve(module)).href);
+  }
+  const games = Number(readOption(args, 'games') ?? 100);
+  const seats = parseSeats(readOption(args, 'seats') ?? 'standard,standard,standard');
+  const rules = parseRules(readOption(args, 'rules') ?? 'standard');
+  if (!Number.isInteger(games) || games < 1 || seats.length < 3 || seats.length > 4) {
+    console.error(USAGE);
+    console.error('Games must be a positive whole number, and there must be 3 or 4 seats.');
+    process.exit(1);
+  }
+
+  const report = runSimulation({ games, seats, seed: readOption(args, 'seed'), rotateSeats: !args.includes('--fixed-seats'), rules });
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log(`${report.finishedGames} of ${report.games} games finished\n`);
+  console.table(report.seats.map(seat => ({
+    bot: seat.name,
+    wins: seat.wins,
+    losses: seat.losses,
+    'win rate': percent(seat.winRate),
+    'avg prize': seat.averagePrize.toFixed(2),
+    'net per game': seat.netPrize.toFixed(2),
+  })));
+  console.log(`Starting player wins: ${percent(report.starterWinRate)}`);
+  console.log(`Games with a minigame: ${percent(report.minigameRate)}`);
+  console.log('Vote results (0 = no vote):');
+  Object.entries(report.voteResults).forEach(([amount, count]) =>
+    console.log(`  ${amount}: ${count} (${percent(count / report.finishedGames)})`));
+  report.errors.forEach(error => console.error(error));
+  if (report.errors.length > 0) process.exit(1);
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
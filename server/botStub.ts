@@ -0,0 +1,51 @@
+import { createServer } from 'node:http';
+import type { Card, ExternalBotRequest, ExternalBotResponse, GameAction } from '../types';
+
+// Reference external bot (see src/bots/externalBot.ts). It reads only the JSON request, so the same
+// few rules can be written in any language. Run with `npm run bot-stub`, then pick "External" for a
+// bot seat in the lobby.
+const PORT = Number(process.env.BOT_PORT) || 8790;
+const JACK = 11;
+
+const byValue = (cards: Card[]): Card[] => [...cards].sort((a, b) => a.value - b.value);
+
+const decide = ({ decision, playerId, state, swapCount, legalPlays }: ExternalBotRequest): GameAction => {
+  const hand = state.players.find(p => p.id === playerId)?.hand ?? [];
+  // Swap when there is nothing to win a trick with
+  const wantsToSwap = !hand.some(card => card.value >= JACK);
+
+  switch (decision) {
+    case 'FIRST_SWAP_DECISION': return { type: decision, playerId, wantsToSwap };
+    case 'OTHERS_SWAP_DECISION': return { type: decision, playerId, wantsToSwap };
+    case 'SWAP_CARDS': return { type: decision, playerId, cards: byValue(hand).slice(0, swapCount ?? 1) };
+    case 'VOTE_DECISION': return { type: decision, playerId, wantsToVote: wantsToSwap };
+    case 'VOTE': return { type: decision, playerId, amount: 1 };
+    case 'FINAL_SWAP_DECISION': return { type: decision, playerId, participate: wantsToSwap };
+    case 'SELECT_ONE_CARD_SWAP': return { type: decision, playerId, card: byValue(hand)[0] };
+    case 'ONE_CARD_SWAP_DECISION':
+      return { type: decision, playerId, keep: (state.revealedCard?.value ?? 0) > (state.cardToSwap?.value ?? 0) };
+    case 'MINIGAME_SWAP': return { type: decision, playerId, wantsToSwap: false };
+    case 'PLAY_CARDS': return { type: decision, playerId, cards: legalPlays?.[0]?.cards ?? [] };
+  }
+};
+
+const server = createServer((request, response) => {
+  // The game runs in a browser on another origin, so every answer allows cross-origin requests
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (request.method === 'OPTIONS') return response.writeHead(204).end();
+  if (request.method !== 'POST') return response.writeHead(405).end();
+
+  let body = '';
+  request.on('data', chunk => { body += chunk; });
+  request.on('end', () => {
+    try {
+      const answer: ExternalBotResponse = { action: decide(JSON.parse(body)) };
+      response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(answer));
+    } catch (error) {
+      response.writeHead(400, { 'Content-Type': 'text/plain' }).end(`Could not read the request: ${error}`);
+    }
+  });
+});
+
+server.listen(PORT, () => console.log(`Gurch reference bot listening on http://localhost:${PORT}/`));
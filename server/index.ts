@@ -0,0 +1,36 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { ServerMessage } from '../types';
+import { SeatRef, handleClientMessage, leaveRoom } from '../src/multiplayer/rooms';
+
+// Authoritative server for "Play with Friends": rooms, dealing and the rules all live here,
+// and each client is only sent what its own seat can see. Run with `npm run server`.
+const PORT = Number(process.env.PORT) || 8787;
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket: WebSocket) => {
+  let seat: SeatRef | undefined;
+
+  const send = (message: ServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+  const connection = { send };
+
+  socket.on('message', (data) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return send({ type: 'ERROR', message: 'Messages must be JSON.' });
+    }
+    // Malformed messages, and any that fail while being handled, are answered with an error to this socket only
+    seat = handleClientMessage(connection, seat, message);
+  });
+
+  socket.on('close', () => {
+    if (seat) leaveRoom(seat.room, seat.playerId);
+    seat = undefined;
+  });
+});
+
+console.log(`Gurch server listening on ws://localhost:${PORT}`);
@@ -0,0 +1,36 @@
+import { BotStyle, Card, GurchBot, Rng } from '../../types';
+import { shuffleDeck } from '../engine';
+import { NEUTRAL_STYLE, createStandardBot } from './standardBot';
+
+// The beginner bot knows the rules but not the strategy: it often goes with its gut where the
+// standard bot would weigh its hand, so its mistakes are the kind a new player makes too.
+const MISTAKE_RATE = 0.4;
+
+const pickRandom = <T,>(items: T[], random: Rng): T => items[Math.floor(random() * items.length)];
+
+export const createBeginnerBot = (random: Rng = Math.random, style: BotStyle = NEUTRAL_STYLE): GurchBot => {
+  const standardBot = createStandardBot(style);
+  // Makes the standard choice, except for the times it guesses instead
+  const sometimes = <T,>(sensible: T, guess: () => T): T => random() < MISTAKE_RATE ? guess() : sensible;
+  const coinFlip = () => random() < 0.5;
+
+  return {
+    wantsFirstSwap: (hand) => sometimes(standardBot.wantsFirstSwap(hand), coinFlip),
+    wantsToMatchSwap: (hand) => sometimes(standardBot.wantsToMatchSwap(hand), coinFlip),
+    wantsToVote: (hand) => sometimes(standardBot.wantsToVote(hand), coinFlip),
+    chooseVoteAmount: (hand) => sometimes(standardBot.chooseVoteAmount(hand), () => 1 + Math.floor(random() * 5)),
+    wantsFinalSwap: (hand) => sometimes(standardBot.wantsFinalSwap(hand), coinFlip),
+    // Swaps whatever catches its eye rather than its weakest cards
+    chooseSwapCards: (hand, count) => sometimes(standardBot.chooseSwapCards(hand, count), () =>
+      shuffleDeck([...hand], random).slice(0, Math.min(count, hand.length))),
+    chooseOneCardToSwap: (hand) => sometimes(standardBot.chooseOneCardToSwap(hand), () => pickRandom(hand, random)),
+    // Judges the revealed card on its own rather than against the hand
+    keepsRevealedCard: (hand: Card[], revealedCard: Card) =>
+      sometimes(standardBot.keepsRevealedCard(hand, revealedCard), () => revealedCard.value >= 10),
+    wantsMinigameSwap: (hand) => sometimes(standardBot.wantsMinigameSwap(hand), coinFlip),
+    // Any legal play will do when it guesses, so it never breaks the rules
+    choosePlay: (hand, legalPlays) => legalPlays.length === 0
+      ? []
+      : sometimes(standardBot.choosePlay(hand, legalPlays), () => pickRandom(legalPlays, random).cards),
+  };
+};
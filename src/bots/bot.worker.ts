@@ -0,0 +1,8 @@
+import { BotWorkerRequest, BotWorkerResponse } from '../../types';
+import { runBotTask } from './index';
+
+// Runs bot decisions and play hints off the UI thread (see services/botService.ts), so a long search never stalls the table
+self.onmessage = (event: MessageEvent<BotWorkerRequest>) => {
+  const response: BotWorkerResponse = { id: event.data.id, action: runBotTask(event.data) };
+  self.postMessage(response);
+};
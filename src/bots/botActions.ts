@@ -0,0 +1,48 @@
+import { Card, GameAction, GamePhase, GameState, GurchBot } from '../../types';
+import { clampVote, getLegalPlays, getRules } from '../engine';
+
+// How many cards the current swap phase asks for; a bot opening the swap trades two
+export const getSwapCount = (state: GameState, hand: Card[]): number => {
+  switch (state.gamePhase) {
+    case GamePhase.FIRST_SWAP_ACTION: return Math.min(2, hand.length);
+    case GamePhase.OTHERS_SWAP_ACTION: return state.swapAmount;
+    case GamePhase.FINAL_SWAP_ACTION: return state.voteResult;
+    default: return 0;
+  }
+};
+
+// The action a policy takes for the current decision, or undefined if it is not this player's turn
+export const chooseBotAction = (state: GameState, playerId: string, bot: GurchBot): GameAction | undefined => {
+  const player = state.players[state.currentPlayerIndex];
+  if (!player || player.id !== playerId) return undefined;
+  const hand = player.hand;
+
+  switch (state.gamePhase) {
+    case GamePhase.FIRST_SWAP_DECISION:
+      return { type: 'FIRST_SWAP_DECISION', playerId, wantsToSwap: bot.wantsFirstSwap(hand) };
+    case GamePhase.FIRST_SWAP_OTHERS_DECISION:
+    case GamePhase.OTHERS_SWAP_DECISION:
+      return { type: 'OTHERS_SWAP_DECISION', playerId, wantsToSwap: bot.wantsToMatchSwap(hand) };
+    case GamePhase.FIRST_SWAP_ACTION:
+    case GamePhase.OTHERS_SWAP_ACTION:
+    case GamePhase.FINAL_SWAP_ACTION:
+      return { type: 'SWAP_CARDS', playerId, cards: bot.chooseSwapCards(hand, getSwapCount(state, hand)) };
+    case GamePhase.VOTE_SWAP_DECISION:
+      return { type: 'VOTE_DECISION', playerId, wantsToVote: bot.wantsToVote(hand) };
+    case GamePhase.VOTE_SWAP:
+      return { type: 'VOTE', playerId, amount: clampVote(getRules(state), bot.chooseVoteAmount(hand)) };
+    case GamePhase.FINAL_SWAP_DECISION:
+      return { type: 'FINAL_SWAP_DECISION', playerId, participate: bot.wantsFinalSwap(hand) };
+    case GamePhase.FINAL_SWAP_ONE_CARD_SELECT:
+      return { type: 'SELECT_ONE_CARD_SWAP', playerId, card: bot.chooseOneCardToSwap(hand) };
+    case GamePhase.FINAL_SWAP_ONE_CARD_REVEAL_AND_DECIDE:
+      return state.revealedCard ? { type: 'ONE_CARD_SWAP_DECISION', playerId, keep: bot.keepsRevealedCard(hand, state.revealedCard) } : undefined;
+    case GamePhase.GAMEPLAY:
+    case GamePhase.MINIGAME:
+      return { type: 'PLAY_CARDS', playerId, cards: bot.choosePlay(hand, getLegalPlays(state, playerId)) };
+    case GamePhase.MINIGAME_SWAP:
+      return { type: 'MINIGAME_SWAP', playerId, wantsToSwap: bot.wantsMinigameSwap(hand) };
+    default:
+      return undefined;
+  }
+};
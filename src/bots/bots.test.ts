@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BotDifficulty, BotPersonality, BotTask, Card, GamePhase, GameState, Player, Rank, Suit } from '../../types';
+import { CARD_VALUES, createGame, formatCards, getLegalPlaysForHand, getRules, getVoteAmounts, tallyVotes } from '../engine';
+import { getBot, runBotTask } from './index';
+import { readTable } from './memory';
+import { adaptToPlayers, emptyPlayerModel } from './playerModel';
+import { getPersonalityStyle } from './personalities';
+import { createStandardBot, standardBot } from './standardBot';
+
+const card = (rank: Rank, suit: Suit = Suit.Spades): Card => ({ rank, suit, value: CARD_VALUES[rank] });
+
+const seat = (id: string, changes: Partial<Player> = {}): Player =>
+  ({ id, name: id, avatar: '', isHuman: false, hand: [], playedCards: [], score: 0, ...changes });
+
+// Two pairs of low cards: a strong hand, for which the bluffer calls for the biggest swap
+const STRONG_HAND = [card(Rank.Two), card(Rank.Two, Suit.Hearts), card(Rank.Three), card(Rank.Three, Suit.Hearts), card(Rank.King)];
+
+test('a bluffer never wins a swap it does not want', () => {
+  const bluffer = seat('fox', { botName: BotDifficulty.STANDARD, botPersonality: BotPersonality.BLUFFER });
+  const game = createGame([bluffer, seat('a'), seat('b')], 0);
+  const blufferBot = createStandardBot(getPersonalityStyle(BotPersonality.BLUFFER));
+  assert.equal(blufferBot.chooseVoteAmount(STRONG_HAND), 5);
+  const wanted = blufferBot.wantedSwap!(STRONG_HAND);
+
+  // Whatever the others have voted, a winning vote from the bluffer is for the swap it really wants
+  const amounts = getVoteAmounts(getRules(game));
+  amounts.forEach(first => amounts.forEach(second => {
+    const state: GameState = {
+      ...game,
+      players: [
+        { ...game.players[0], hand: STRONG_HAND, wantsToVote: true },
+        { ...game.players[1], wantsToVote: true, hasVoted: true, swapVote: first },
+        { ...game.players[2], wantsToVote: true, hasVoted: true, swapVote: second },
+      ],
+      gamePhase: GamePhase.VOTE_SWAP,
+      currentPlayerIndex: 0,
+      firstPlayerToAct: 1,
+    };
+    const vote = getBot(state, state.players[0]).chooseVoteAmount(STRONG_HAND);
+    if (tallyVotes([first, second, vote], getRules(state)) === vote) assert.equal(vote, wanted, `others voted ${first} and ${second}`);
+  }));
+});
+
+test('an opponent\'s face-up card is only known to be in their hand until they swap', () => {
+  const faceUpCard = card(Rank.Ace);
+  const game = createGame([seat('me'), seat('a'), seat('b')], 0);
+  const state: GameState = {
+    ...game,
+    players: [
+      { ...game.players[0], hand: [card(Rank.Five), card(Rank.Six)] },
+      { ...game.players[1], hand: [card(Rank.Four), faceUpCard], faceUpCard },
+      { ...game.players[2], hand: [card(Rank.Seven), card(Rank.Eight)] },
+    ],
+    gamePhase: GamePhase.FIRST_SWAP_DECISION,
+    dealRecord: { playedCards: [], swapCounts: {}, stoodPat: [], votes: {}, revealedCards: [] },
+  };
+  const opponentA = (table: GameState) => readTable(table, 'me').opponents.find(o => o.playerId === 'a')!;
+
+  assert.deepEqual(opponentA(state).knownCards, [faceUpCard]);
+  const swapped = { ...state, dealRecord: { ...state.dealRecord!, swapCounts: { a: 1 } } };
+  assert.deepEqual(opponentA(swapped).knownCards, []);
+  assert.ok(readTable(swapped, 'me').unseenCards.some(c => c.rank === Rank.Ace && c.suit === Suit.Spades));
+});
+
+test('against a player who leads high cards, a bot keeps its own high cards back', () => {
+  const highLeader = { ...emptyPlayerModel(), leads: 10, highLeads: 8 };
+  const state = createGame([seat('me'), { ...seat('human'), isHuman: true, tendencies: highLeader }, seat('b')], 0);
+  const hand = [card(Rank.King), card(Rank.Seven), card(Rank.Four)];
+  const leads = getLegalPlaysForHand(hand, []);
+
+  assert.deepEqual(standardBot.choosePlay(hand, leads), [card(Rank.King)]);
+  assert.deepEqual(adaptToPlayers(standardBot, state, 'me').choosePlay(hand, leads), [card(Rank.Seven)]);
+});
+
+test('a hint is a play for the human whose turn it is', () => {
+  const game = createGame([{ ...seat('me'), isHuman: true }, seat('a'), seat('b')], 0);
+  const hands = [[card(Rank.Ace), card(Rank.Four)], [card(Rank.Six), card(Rank.Nine)], [card(Rank.Five), card(Rank.Ten)]];
+  const state: GameState = {
+    ...game,
+    players: game.players.map((p, i) => ({ ...p, hand: hands[i] })),
+    gamePhase: GamePhase.GAMEPLAY,
+    currentPlayerIndex: 0,
+  };
+  const hint = (playerId: string) => runBotTask({ id: 0, task: BotTask.HINT, state, playerId, seed: 'HINT' });
+
+  const action = hint('me');
+  assert.equal(action?.type, 'PLAY_CARDS');
+  assert.ok(getLegalPlaysForHand(hands[0], []).some(play => action?.type === 'PLAY_CARDS' && formatCards(play.cards) === formatCards(action.cards)));
+  assert.equal(hint('a'), undefined);
+});
+
+test('the same table and seed give the same bot move', () => {
+  const beginner = seat('owl', { botName: BotDifficulty.BEGINNER });
+  const game = createGame([beginner, seat('a'), seat('b')], 0);
+  const state: GameState = {
+    ...game,
+    players: game.players.map((p, i) => ({ ...p, hand: i === 0 ? STRONG_HAND : [], wantsToVote: true })),
+    gamePhase: GamePhase.VOTE_SWAP,
+    currentPlayerIndex: 0,
+    firstPlayerToAct: 0,
+  };
+  const decide = (seed: string) => runBotTask({ id: 0, task: BotTask.MOVE, state, playerId: 'owl', seed });
+
+  const seeds = Array.from({ length: 20 }, (_, i) => `SEED:bots:1:${i}`);
+  seeds.forEach(seed => assert.deepEqual(decide(seed), decide(seed)));
+  // The beginner votes at random some of the time, so the seed does decide the move
+  assert.ok(new Set(seeds.map(seed => JSON.stringify(decide(seed)))).size > 1);
+});
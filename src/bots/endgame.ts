@@ -0,0 +1,104 @@
+import { Card, GameAction, GamePhase, GameState, GurchBot, Rng } from '../../types';
+import { applyAction, getLegalPlays, isSeatActive } from '../engine';
+import { guessHiddenCards, readTable } from './memory';
+
+// Exact play for the end of a deal. Once every hand is down to a few cards the remaining tricks are
+// few enough to search completely with the rules engine: each seat plays whatever ends the deal best
+// for itself, assuming everyone after it does the same.
+export interface EndgameOptions {
+  samples?: number; // Guesses at the hidden cards to average over when some are not known
+  timeLimitMs?: number; // Stops guessing once a decision has taken this long
+  random?: Rng;
+}
+
+export const ENDGAME_HAND_SIZE = 3; // Hands this small are searched exactly
+const DEFAULT_SAMPLES = 30;
+const DEFAULT_TIME_LIMIT_MS = 300;
+
+const isPlayPhase = (state: GameState): boolean =>
+  state.gamePhase === GamePhase.GAMEPLAY || state.gamePhase === GamePhase.MINIGAME;
+
+// True once every seat still playing this deal holds ENDGAME_HAND_SIZE cards or fewer
+export const isEndgame = (state: GameState): boolean =>
+  isPlayPhase(state) && state.players.every((p, i) => !isSeatActive(state, i) || p.hand.length <= ENDGAME_HAND_SIZE);
+
+// What the end of the deal is worth to a player: the prize for winning, minus the prize for losing.
+// A tie sends the tied players to a minigame, which each is taken to have an even chance of winning.
+const scoreDeal = (state: GameState, playerId: string): number => {
+  const prize = state.prize ?? 0;
+  let score = 0;
+  if (state.gameWinnerId === playerId) score += prize;
+  if (state.gameLoserId === playerId) score -= prize;
+  const tied = state.gamePhase === GamePhase.GAME_OVER ? [] : state.minigamePlayers ?? [];
+  if (tied.includes(playerId)) score += (state.minigameTieType === 'LOSER' ? -prize : prize) / tied.length;
+  const loserTie = state.minigameLoserTie ?? [];
+  if (loserTie.includes(playerId)) score -= prize / loserTie.length;
+  return score;
+};
+
+// Every seat's score for the end of the deal when all of them play perfectly from here
+const solve = (state: GameState): number[] => {
+  if (state.gamePhase === GamePhase.ROUND_OVER) {
+    const result = applyAction(state, { type: 'NEXT_ROUND' });
+    return result.ok ? solve(result.state) : state.players.map(() => 0);
+  }
+  if (!isPlayPhase(state)) return state.players.map(p => scoreDeal(state, p.id));
+
+  const seat = state.currentPlayerIndex;
+  const playerId = state.players[seat].id;
+  let best: number[] | undefined;
+  for (const play of getLegalPlays(state, playerId)) {
+    const result = applyAction(state, { type: 'PLAY_CARDS', playerId, cards: play.cards });
+    if (!result.ok) continue;
+    const scores = solve(result.state);
+    if (!best || scores[seat] > best[seat]) best = scores;
+  }
+  return best ?? state.players.map(() => 0);
+};
+
+const playAction = (playerId: string, cards: Card[]): GameAction => ({ type: 'PLAY_CARDS', playerId, cards });
+
+// The best play for the player to move when every hand is known (the perfect-information case), or
+// undefined outside the endgame
+export const solveEndgame = (state: GameState, playerId: string): Card[] | undefined => {
+  if (!isEndgame(state)) return undefined;
+  const seat = state.players.findIndex(p => p.id === playerId);
+  let best: { cards: Card[]; score: number } | undefined;
+  for (const play of getLegalPlays(state, playerId)) {
+    const result = applyAction(state, playAction(playerId, play.cards));
+    if (!result.ok) continue;
+    const score = solve(result.state)[seat];
+    if (!best || score > best.score) best = { cards: play.cards, score };
+  }
+  return best?.cards;
+};
+
+// The play with the best expected score when opponents' cards are hidden: the endgame is solved
+// exactly for guesses at their hands, consistent with what the player has seen this deal
+export const chooseEndgamePlay = (state: GameState, playerId: string, options: EndgameOptions = {}): Card[] | undefined => {
+  const { samples = DEFAULT_SAMPLES, timeLimitMs = DEFAULT_TIME_LIMIT_MS, random = Math.random } = options;
+  if (!isEndgame(state)) return undefined;
+  const plays = getLegalPlays(state, playerId);
+  if (plays.length <= 1) return plays[0]?.cards;
+
+  // When every opponent card is known, one deal is the whole truth
+  const isFullyKnown = readTable(state, playerId).opponents.every(o => o.knownCards.length === o.handSize);
+  const seat = state.players.findIndex(p => p.id === playerId);
+  const totals = plays.map(() => 0);
+  const startedAt = Date.now();
+  for (let i = 0; i < (isFullyKnown ? 1 : samples) && (i === 0 || Date.now() - startedAt < timeLimitMs); i++) {
+    const guess = guessHiddenCards(state, playerId, random);
+    plays.forEach((play, p) => {
+      const result = applyAction(guess, playAction(playerId, play.cards));
+      totals[p] += result.ok ? solve(result.state)[seat] : -Infinity;
+    });
+  }
+  return plays[totals.indexOf(Math.max(...totals))].cards;
+};
+
+// Hands a bot's plays over to the endgame solver once the deal gets down to its last few cards
+export const withEndgameSolver = (bot: GurchBot, state: GameState, playerId: string, random: Rng = Math.random): GurchBot => ({
+  ...bot,
+  choosePlay: (hand, legalPlays) =>
+    (isEndgame(state) ? chooseEndgamePlay(state, playerId, { random }) : undefined) ?? bot.choosePlay(hand, legalPlays),
+});
@@ -0,0 +1,105 @@
+import { BotStyle, Card, GurchBot, LegalPlay, PlayKind } from '../../types';
+import { groupByRank, removeCards, sumCards } from '../engine';
+import { TableMemory, highestOutstanding, isUnbeatable } from './memory';
+import { NEUTRAL_STYLE, discardLean, evaluateHandQuality, standardBot, styleVoteAmount } from './standardBot';
+
+// The expert bot plans for going out low: the game is won by the lowest final play, so it keeps
+// its lowest card back for the end, wins tricks with its high cards, and gets rid of the middle
+// cards that can do neither. It also remembers what the table has shown this deal (see ./memory),
+// so it knows which high cards are still out.
+const LOW_CARD = 5; // Low enough to go out on
+const HIGH_CARD = 11; // High enough to win tricks (Jack and up)
+const EXPECTED_HIGH_CARDS_TO_FEAR = 1.5; // Opponents likely holding this many high cards between them can beat a high card
+
+const lowestValue = (hand: Card[]): number => Math.min(...hand.map(c => c.value));
+
+const isDeadCard = (card: Card, hand: Card[]): boolean =>
+  card.value > LOW_CARD && card.value < HIGH_CARD && hand.filter(c => c.rank === card.rank).length === 1;
+
+// The swap its dead cards call for: one card each, between 1 and 4
+const deadCardSwap = (hand: Card[]): number => Math.max(1, Math.min(4, hand.filter(c => isDeadCard(c, hand)).length));
+
+// Standard hand quality, plus what it takes to go out low: a low card to finish on and high cards to get there
+const evaluateGoingOut = (hand: Card[]): number => {
+  if (hand.length === 0) return 0;
+  let score = evaluateHandQuality(hand);
+  if (lowestValue(hand) <= LOW_CARD) score += 3;
+  if (hand.some(c => c.value >= HIGH_CARD)) score += 2;
+  score -= hand.filter(c => isDeadCard(c, hand)).length * 2;
+  return score;
+};
+
+// Dead middle cards go first, then whatever costs the hand least; the lowest card is the last to go
+const chooseSwapCards = (hand: Card[], count: number, style: BotStyle): Card[] => {
+  if (hand.length === 0 || count <= 0) return [];
+  const lowest = lowestValue(hand);
+  const discardScore = (card: Card) =>
+    (isDeadCard(card, hand) ? 10 : 0) +
+    (card.value === lowest ? -10 : 0) +
+    evaluateGoingOut(removeCards(hand, [card]) ?? hand) +
+    discardLean(card, style);
+  return [...hand].sort((a, b) => discardScore(b) - discardScore(a)).slice(0, Math.min(count, hand.length));
+};
+
+// Never spends the card it means to go out on while other cards remain
+const keepsLowestCard = (hand: Card[], play: LegalPlay): boolean => {
+  const rest = removeCards(hand, play.cards) ?? [];
+  return rest.length === 0 || lowestValue(rest) <= lowestValue(hand);
+};
+
+const cheapestFirst = (plays: LegalPlay[]): LegalPlay[] => [...plays].sort((a, b) => sumCards(a.cards) - sumCards(b.cards));
+
+export const createExpertBot = (memory?: TableMemory, style: BotStyle = NEUTRAL_STYLE): GurchBot => {
+  const cannotBeBeaten = (play: LegalPlay) => !!memory && isUnbeatable(memory, play.cards[0].value, play.cards.length);
+  const opponentsLookStrong = () =>
+    !!memory && memory.opponents.reduce((total, o) => total + o.expectedHighCards, 0) >= EXPECTED_HIGH_CARDS_TO_FEAR;
+
+  const choosePlay = (hand: Card[], legalPlays: LegalPlay[]): Card[] => {
+    if (legalPlays.length === 0) return [];
+    const planned = legalPlays.filter(play => keepsLowestCard(hand, play));
+    const candidates = planned.length > 0 ? planned : legalPlays;
+
+    const leads = candidates.filter(play => play.kind === PlayKind.LEAD);
+    if (leads.length > 0) {
+      // Down to one set: go out on it
+      if (groupByRank(hand).length === 1) return hand;
+      // A lead nobody can answer keeps the lead for the next trick; the cheapest such lead saves the rest
+      const safeLeads = cheapestFirst(leads.filter(cannotBeBeaten));
+      if (safeLeads.length > 0) return safeLeads[0].cards;
+      const sortedLeads = [...leads].sort((a, b) => b.cards[0].value - a.cards[0].value || b.cards.length - a.cards.length);
+      return sortedLeads[0].cards;
+    }
+
+    // Win with the cheapest set nobody after it can beat, or failing that the cheapest set, saving the bigger cards for later tricks
+    const winningPlays = cheapestFirst(candidates.filter(play => play.kind === PlayKind.WINNING_SET));
+    if (winningPlays.length > 0) return (winningPlays.find(cannotBeBeaten) ?? winningPlays[0]).cards;
+
+    // Everything else is decided by the rules' sacrifice requirements; the standard preferences hold
+    return standardBot.choosePlay(hand, candidates);
+  };
+
+  // A revealed card is worth keeping if it finishes low, makes a set, or wins tricks and beats the card given up.
+  // A high card wins tricks if nothing above it is still out, or if the opponents look short of high cards.
+  const keepsRevealedCard = (hand: Card[], revealedCard: Card): boolean => {
+    if (revealedCard.value <= LOW_CARD || hand.some(c => c.rank === revealedCard.rank)) return true;
+    if (revealedCard.value >= HIGH_CARD && memory) {
+      return revealedCard.value >= highestOutstanding(memory) || !opponentsLookStrong() || standardBot.keepsRevealedCard(hand, revealedCard);
+    }
+    return standardBot.keepsRevealedCard(hand, revealedCard);
+  };
+
+  return {
+    wantsFirstSwap: (hand) => evaluateGoingOut(hand) < 10 + style.swapBias,
+    wantsToMatchSwap: (hand) => evaluateGoingOut(hand) < 8 + style.swapBias,
+    wantsToVote: (hand) => hand.some(c => isDeadCard(c, hand)) || evaluateGoingOut(hand) < 10 + style.voteBias,
+    // Votes to swap exactly the dead cards it holds
+    chooseVoteAmount: (hand) => styleVoteAmount(deadCardSwap(hand), style),
+    wantedSwap: (hand) => styleVoteAmount(deadCardSwap(hand), { ...style, bluffsVotes: false }),
+    wantsFinalSwap: (hand) => hand.some(c => isDeadCard(c, hand)),
+    chooseSwapCards: (hand, count) => chooseSwapCards(hand, count, style),
+    chooseOneCardToSwap: (hand) => chooseSwapCards(hand, 1, style)[0],
+    keepsRevealedCard,
+    wantsMinigameSwap: standardBot.wantsMinigameSwap,
+    choosePlay,
+  };
+};
@@ -0,0 +1,76 @@
+import { ExternalBotDecision, ExternalBotRequest, ExternalBotResponse, GameAction, GamePhase, GameState } from '../../types';
+import { applyAction, getLegalPlays } from '../engine';
+import { getSwapCount } from './botActions';
+
+// Seats played by a program outside the game, in any language. For each decision the program is
+// POSTed an ExternalBotRequest and answers with an ExternalBotResponse (see types.ts, and
+// server/botStub.ts for a reference bot). A bot that is slow, unreachable or answers with a move
+// the rules reject is covered for by the built-in standard bot.
+export const EXTERNAL_BOT = 'EXTERNAL';
+export const DEFAULT_EXTERNAL_BOT_URL = 'http://localhost:8790/';
+export const EXTERNAL_BOT_PROTOCOL_VERSION = 1;
+const EXTERNAL_BOT_TIMEOUT = 3000;
+
+const DECISIONS: { [key in GamePhase]?: ExternalBotDecision } = {
+  [GamePhase.FIRST_SWAP_DECISION]: 'FIRST_SWAP_DECISION',
+  [GamePhase.FIRST_SWAP_OTHERS_DECISION]: 'OTHERS_SWAP_DECISION',
+  [GamePhase.OTHERS_SWAP_DECISION]: 'OTHERS_SWAP_DECISION',
+  [GamePhase.FIRST_SWAP_ACTION]: 'SWAP_CARDS',
+  [GamePhase.OTHERS_SWAP_ACTION]: 'SWAP_CARDS',
+  [GamePhase.FINAL_SWAP_ACTION]: 'SWAP_CARDS',
+  [GamePhase.VOTE_SWAP_DECISION]: 'VOTE_DECISION',
+  [GamePhase.VOTE_SWAP]: 'VOTE',
+  [GamePhase.FINAL_SWAP_DECISION]: 'FINAL_SWAP_DECISION',
+  [GamePhase.FINAL_SWAP_ONE_CARD_SELECT]: 'SELECT_ONE_CARD_SWAP',
+  [GamePhase.FINAL_SWAP_ONE_CARD_REVEAL_AND_DECIDE]: 'ONE_CARD_SWAP_DECISION',
+  [GamePhase.GAMEPLAY]: 'PLAY_CARDS',
+  [GamePhase.MINIGAME]: 'PLAY_CARDS',
+  [GamePhase.MINIGAME_SWAP]: 'MINIGAME_SWAP',
+};
+
+// The request for the seat's current decision, or undefined if it has none. `state` should already be
+// redacted to what the seat can see.
+export const buildExternalBotRequest = (state: GameState, playerId: string): ExternalBotRequest | undefined => {
+  const player = state.players[state.currentPlayerIndex];
+  const decision = DECISIONS[state.gamePhase];
+  if (!player || player.id !== playerId || !decision) return undefined;
+  return {
+    version: EXTERNAL_BOT_PROTOCOL_VERSION,
+    playerId,
+    decision,
+    state,
+    swapCount: decision === 'SWAP_CARDS' ? getSwapCount(state, player.hand) : undefined,
+    legalPlays: decision === 'PLAY_CARDS' ? getLegalPlays(state, playerId) : undefined,
+  };
+};
+
+// Asks the bot at `url` for its action. Rejects if it does not answer in time (or `signal` aborts),
+// or if its answer is not a legal move for this decision.
+export const requestExternalBotAction = async (
+  url: string,
+  request: ExternalBotRequest,
+  signal?: AbortSignal,
+): Promise<GameAction> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), EXTERNAL_BOT_TIMEOUT);
+  signal?.addEventListener('abort', () => controller.abort());
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal: controller.signal,
+    });
+    if (!response.ok) throw new Error(`The bot answered with HTTP ${response.status}.`);
+
+    const { action }: ExternalBotResponse = await response.json();
+    if (!action || action.type !== request.decision || !('playerId' in action) || action.playerId !== request.playerId) {
+      throw new Error(`The bot was asked for ${request.decision} but answered with ${JSON.stringify(action)}.`);
+    }
+    const result = applyAction(request.state, action);
+    if (result.ok === false) throw new Error(`The bot's ${action.type} was rejected: ${result.error.message}`);
+    return action;
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,65 @@
+import { BotDifficulty, BotTask, BotWorkerRequest, GameAction, GameState, GurchBot, Player, Rng } from '../../types';
+import { createBeginnerBot } from './beginnerBot';
+import { createRng } from '../engine';
+import { chooseBotAction } from './botActions';
+import { withEndgameSolver } from './endgame';
+import { createExpertBot } from './expertBot';
+import { readTable } from './memory';
+import { applyPersonality, getPersonalityStyle } from './personalities';
+import { adaptToPlayers } from './playerModel';
+import { findBot, registerBot } from './registry';
+import { createSearchBot } from './searchBot';
+import { createStandardBot } from './standardBot';
+import { voteStrategically } from './voting';
+
+export { getSwapCount } from './botActions';
+export { chooseEndgamePlay, isEndgame, solveEndgame } from './endgame';
+export { DEFAULT_EXTERNAL_BOT_URL, EXTERNAL_BOT, buildExternalBotRequest, requestExternalBotAction } from './externalBot';
+export { PERSONALITIES, getPersonalityForBot, getPersonalityLine } from './personalities';
+export { emptyPlayerModel, learnFromAction } from './playerModel';
+export { getRegisteredBots, registerBot } from './registry';
+export type { RegisteredBot } from './registry';
+
+registerBot(BotDifficulty.BEGINNER, 'Beginner', ({ random, style }) => createBeginnerBot(random, style));
+registerBot(BotDifficulty.STANDARD, 'Standard', ({ state, playerId, style }) => voteStrategically(createStandardBot(style), state, playerId));
+registerBot(BotDifficulty.EXPERT, 'Expert', ({ state, playerId, random, style }) =>
+  withEndgameSolver(voteStrategically(createExpertBot(readTable(state, playerId), style), state, playerId), state, playerId, random));
+registerBot(BotDifficulty.MASTER, 'Master', ({ state, playerId, random, style }) =>
+  createSearchBot(state, playerId, { random, riskAppetite: style.riskAppetite }));
+
+// The bot playing a seat, made for the state it decides in (the standard and expert bots vote with the other
+// voters in mind, the expert remembers the deal so far and solves its last few tricks exactly, the master bot
+// searches the table it sees). A personality leans the bot's own judgement through its style and steers the
+// plays it picks from; strategic voting wraps the bot its style made, so it has the last word on votes. Every
+// bot only chooses between moves the engine allows, and bends its leads to the habits of any human at the
+// table it has learned about. A name that is not registered plays as STANDARD.
+export const getBot = (state: GameState, player: Player, random: Rng = Math.random): GurchBot => {
+  const registered = findBot(player.botName ?? BotDifficulty.STANDARD) ?? findBot(BotDifficulty.STANDARD)!;
+  const style = getPersonalityStyle(player.botPersonality);
+  const bot = applyPersonality(registered.create({ state, playerId: player.id, random, style }), player.botPersonality);
+  return adaptToPlayers(bot, state, player.id);
+};
+
+// The whole bot in one call: the action the bot takes for the current decision, or undefined if it is
+// not this player's turn. Used where there is no UI to pace the bot (the server, simulations).
+export const decideBotAction = (state: GameState, playerId: string, random: Rng = Math.random): GameAction | undefined => {
+  const player = state.players[state.currentPlayerIndex];
+  if (!player || player.id !== playerId) return undefined;
+  return chooseBotAction(state, playerId, getBot(state, player, random));
+};
+
+// The play a hint suggests to a human: the one the expert bot would make from their seat, which near the end
+// of a deal is the endgame solver's. Undefined unless it is their turn to play cards.
+export const suggestPlay = (state: GameState, playerId: string, random: Rng = Math.random): GameAction | undefined => {
+  const player = state.players[state.currentPlayerIndex];
+  if (!player || player.id !== playerId) return undefined;
+  const expert = getBot(state, { ...player, botName: BotDifficulty.EXPERT, botPersonality: undefined }, random);
+  const action = chooseBotAction(state, playerId, expert);
+  return action?.type === 'PLAY_CARDS' ? action : undefined;
+};
+
+// Answers a bot worker request, on the worker or on the main thread when there is no worker
+export const runBotTask = ({ task, state, playerId, seed }: BotWorkerRequest): GameAction | undefined => {
+  const random = createRng(seed);
+  return task === BotTask.HINT ? suggestPlay(state, playerId, random) : decideBotAction(state, playerId, random);
+};
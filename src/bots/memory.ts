@@ -0,0 +1,102 @@
+import { Card, GameState, Rng } from '../../types';
+import { createDeck, isSameCard, shuffleDeck } from '../engine';
+import { getStandPatRate } from './playerModel';
+
+// A bot's picture of the table: which cards it has not seen yet and what each opponent probably holds.
+// It is built from what the whole table has seen this deal (the state's deal record), so it never
+// looks at another player's hand.
+export interface OpponentBelief {
+  playerId: string;
+  handSize: number;
+  knownCards: Card[]; // Still in their hand: their face-up card until they swap, and any revealed card they kept
+  expectedHighCards: number; // Cards Jack or higher they are likely to hold
+  strength: number; // Above 1 looks stronger than a random hand, below 1 weaker
+}
+
+export interface TableMemory {
+  unseenCards: Card[]; // Cards the bot has not seen, held by opponents or still in the deck
+  opponents: OpponentBelief[];
+}
+
+const HIGH_CARD = 11;
+const STOOD_PAT_STRENGTH = 1.3; // Turning a swap down suggests a hand worth keeping
+const SWAPPED_STRENGTH = 0.9; // Fresh cards from a swap are no better than a random draw, and weak cards went out
+const VOTE_STRENGTH_STEP = 0.05; // A big vote asks for a big change
+
+const isAmong = (cards: Card[], card: Card): boolean => cards.some(c => isSameCard(c, card));
+
+export const readTable = (state: GameState, playerId: string): TableMemory => {
+  const record = state.dealRecord;
+  const isMinigame = (state.minigamePlayers ?? []).length > 0;
+  // The record covers every trick this deal; without one, only the trick on the table is known
+  const playedCards = record ? record.playedCards : state.players.flatMap(p => p.playedCards);
+  const ownHand = state.players.find(p => p.id === playerId)?.hand ?? [];
+
+  // Cards an opponent is known to hold until they play them. Face-up cards are from the main deal,
+  // so they say nothing about a minigame hand, and once the player has swapped, the face-up card
+  // may have gone face down with the rest.
+  const knownHands = state.players.map(p => {
+    if (p.id === playerId || p.hand.length === 0) return [];
+    const kept = (record?.revealedCards ?? []).filter(r => r.playerId === p.id && r.kept).map(r => r.card);
+    const holdsFaceUpCard = !!p.faceUpCard && !isMinigame && (record?.swapCounts[p.id] ?? 0) === 0;
+    const candidates = holdsFaceUpCard ? [p.faceUpCard!, ...kept] : kept;
+    return candidates.filter(card => !isAmong(playedCards, card)).slice(0, p.hand.length);
+  });
+
+  const declinedReveals = (record?.revealedCards ?? []).filter(r => !r.kept).map(r => r.card);
+  const seen = [...ownHand, ...playedCards, ...declinedReveals, ...knownHands.flat(), ...(state.revealedCard ? [state.revealedCard] : [])];
+  const unseenCards = createDeck().filter(card => !isAmong(seen, card));
+  const highShare = unseenCards.length > 0 ? unseenCards.filter(c => c.value >= HIGH_CARD).length / unseenCards.length : 0;
+
+  const opponents = state.players.flatMap((p, i) => {
+    if (p.id === playerId) return [];
+    let strength = 1;
+    // From a player who usually swaps, standing pat says more; from one who always stands pat, nothing
+    const standPatRate = p.tendencies ? getStandPatRate(p.tendencies) : undefined;
+    const surprise = standPatRate === undefined ? 1 : 2 * (1 - standPatRate);
+    if (record?.stoodPat.includes(p.id)) strength *= 1 + (STOOD_PAT_STRENGTH - 1) * surprise;
+    if ((record?.swapCounts[p.id] ?? 0) > 0) strength *= SWAPPED_STRENGTH;
+    strength -= (record?.votes[p.id] ?? 0) * VOTE_STRENGTH_STEP;
+
+    const knownCards = knownHands[i];
+    const unknownCount = p.hand.length - knownCards.length;
+    const knownHigh = knownCards.filter(c => c.value >= HIGH_CARD).length;
+    return [{
+      playerId: p.id,
+      handSize: p.hand.length,
+      knownCards,
+      expectedHighCards: knownHigh + Math.min(unknownCount, unknownCount * highShare * strength),
+      strength,
+    }];
+  });
+
+  return { unseenCards, opponents };
+};
+
+// How many copies of a rank the bot cannot account for: in opponents' hands or the deck
+const copiesOut = (memory: TableMemory, value: number): number =>
+  memory.unseenCards.filter(c => c.value === value).length +
+  memory.opponents.reduce((count, o) => count + o.knownCards.filter(c => c.value === value).length, 0);
+
+// True if no opponent could answer a same-rank set of `size` cards at `value`: ties go to the later play,
+// so an equal set would take the trick too
+export const isUnbeatable = (memory: TableMemory, value: number, size: number): boolean => {
+  const valuesOut = new Set([...memory.unseenCards, ...memory.opponents.flatMap(o => o.knownCards)].map(c => c.value));
+  return [...valuesOut].every(v => v < value || copiesOut(memory, v) < size);
+};
+
+// The highest card value that may still be held against the bot
+export const highestOutstanding = (memory: TableMemory): number =>
+  Math.max(0, ...memory.unseenCards.map(c => c.value), ...memory.opponents.flatMap(o => o.knownCards.map(c => c.value)));
+
+// One guess at the hidden cards. The bot keeps its own hand and the cards it knows each opponent holds;
+// everything else is dealt out of the cards it has not seen this deal.
+export const guessHiddenCards = (state: GameState, playerId: string, random: Rng): GameState => {
+  const memory = readTable(state, playerId);
+  const unseen = shuffleDeck(memory.unseenCards, random);
+  const players = state.players.map(p => {
+    const knownCards = memory.opponents.find(o => o.playerId === p.id)?.knownCards;
+    return knownCards ? { ...p, hand: [...knownCards, ...unseen.splice(0, p.hand.length - knownCards.length)] } : p;
+  });
+  return { ...state, players, deck: unseen.splice(0, state.deck.length), discards: state.discards && unseen.splice(0, state.discards.length) };
+};
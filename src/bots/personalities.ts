@@ -0,0 +1,99 @@
+import { BotPersonality, BotStyle, Card, GurchBot, LegalPlay, PersonalityMoment, PlayKind, Rng } from '../../types';
+import { removeCards } from '../engine';
+import { NEUTRAL_STYLE } from './standardBot';
+
+// Personalities give bots a style of their own on top of their difficulty. They do not make the bot's
+// decisions for it: each one leans the thresholds and amounts the bot judges its hand by (its style),
+// narrows the plays it picks from to the kind it favours, and talks about it at the table.
+export interface PersonalityProfile {
+  name: string; // What the bot is called at the table
+  avatarPrompt: string;
+  lines: { [key in PersonalityMoment]: string[] };
+  style: BotStyle;
+  leanPlays?: (hand: Card[], legalPlays: LegalPlay[]) => LegalPlay[]; // The plays it favours; empty leaves them all
+}
+
+const HIGH_CARD = 11; // Jack and up wins tricks
+
+const lowestValue = (hand: Card[]): number => Math.min(...hand.map(c => c.value));
+
+// Takes every trick it can, and leads with its high cards
+const playsToWin = (_hand: Card[], legalPlays: LegalPlay[]): LegalPlay[] => {
+  const winningPlays = legalPlays.filter(play => play.kind === PlayKind.WINNING_SET);
+  if (winningPlays.length > 0) return winningPlays;
+  return legalPlays.filter(play => play.kind === PlayKind.LEAD && play.cards[0].value >= HIGH_CARD);
+};
+
+// Holds on to its lowest card, the one it means to go out on, for as long as it has other cards
+const playsToGoOutLow = (hand: Card[], legalPlays: LegalPlay[]): LegalPlay[] => legalPlays.filter(play => {
+  const rest = removeCards(hand, play.cards) ?? [];
+  return rest.length === 0 || lowestValue(rest) <= lowestValue(hand);
+});
+
+export const PERSONALITIES: { [key in BotPersonality]: PersonalityProfile } = {
+  [BotPersonality.BLUFFER]: {
+    name: 'Fox',
+    avatarPrompt: 'A clever fox in a fantasy tavern, vector art',
+    lines: {
+      [PersonalityMoment.SWAP]: ['Fresh cards, fresh tricks.', 'Let\'s see what the deck is hiding.', 'Nothing up my sleeve. Yet.'],
+      [PersonalityMoment.STAND_PAT]: ['Oh, I\'m perfectly happy. Or am I?', 'I\'ll keep these, thank you.', 'Read my face if you can.'],
+      [PersonalityMoment.VOTE]: ['Go on, swap them all. I dare you.', 'My hand? Dreadful. Truly.', 'Trust me on this vote.'],
+      [PersonalityMoment.TAKE_TRICK]: ['Didn\'t see that coming, did you?', 'All part of the plan.', 'Never trust a fox.'],
+    },
+    // Votes nearly every time, and the better its hand the bigger the swap it calls for, hoping to shake up everyone else's
+    style: { ...NEUTRAL_STYLE, voteBias: 6, bluffsVotes: true },
+  },
+  [BotPersonality.CONSERVATIVE]: {
+    name: 'Owl',
+    avatarPrompt: 'A wise owl wizard, vector art',
+    lines: {
+      [PersonalityMoment.SWAP]: ['A small adjustment, nothing more.', 'Patience builds a winning hand.', 'Out with the high ones.'],
+      [PersonalityMoment.STAND_PAT]: ['I know what I have.', 'No need to gamble.', 'Steady does it.'],
+      [PersonalityMoment.VOTE]: ['One card is plenty.', 'Let us not be hasty.', 'A modest change, I think.'],
+      [PersonalityMoment.TAKE_TRICK]: ['Slow and steady.', 'As foreseen.', 'Wisdom prevails.'],
+    },
+    // Swaps and votes less readily, asks for small swaps, gives up its high cards first and fears losing more than it
+    // likes winning
+    style: { ...NEUTRAL_STYLE, swapBias: -2, voteBias: -4, voteShift: -2, discardBias: 2, riskAppetite: -0.5 },
+    leanPlays: playsToGoOutLow,
+  },
+  [BotPersonality.AGGRESSIVE]: {
+    name: 'Badger',
+    avatarPrompt: 'A stoic badger knight, vector art',
+    lines: {
+      [PersonalityMoment.SWAP]: ['Give me something to fight with.', 'Weak cards have no place here.', 'Arm me.'],
+      [PersonalityMoment.STAND_PAT]: ['These will do the job.', 'I fight with what I have.', 'Ready for battle.'],
+      [PersonalityMoment.VOTE]: ['Enough talk. Play.', 'Swap if you must.', 'A small change. Then we fight.'],
+      [PersonalityMoment.TAKE_TRICK]: ['Mine.', 'Stand aside.', 'Another one falls.'],
+    },
+    // Keeps its high cards when it swaps, wants small swaps so play gets going, and chases the win
+    style: { ...NEUTRAL_STYLE, voteBias: -4, voteShift: -1, discardBias: -2, riskAppetite: 0.5 },
+    leanPlays: playsToWin,
+  },
+};
+
+// Bots take the personalities in this order, matching the avatars they have always had
+const PERSONALITY_ORDER = [BotPersonality.BLUFFER, BotPersonality.CONSERVATIVE, BotPersonality.AGGRESSIVE];
+
+export const getPersonalityForBot = (botIndex: number): BotPersonality => PERSONALITY_ORDER[botIndex % PERSONALITY_ORDER.length];
+
+export const getPersonalityStyle = (personality?: BotPersonality): BotStyle =>
+  personality ? PERSONALITIES[personality].style : NEUTRAL_STYLE;
+
+// Offers the bot only the plays its personality favours, when there are any; the bot still picks among them
+export const applyPersonality = (bot: GurchBot, personality?: BotPersonality): GurchBot => {
+  const leanPlays = personality && PERSONALITIES[personality].leanPlays;
+  if (!leanPlays) return bot;
+  return {
+    ...bot,
+    choosePlay: (hand, legalPlays) => {
+      const favoured = leanPlays(hand, legalPlays);
+      return bot.choosePlay(hand, favoured.length > 0 ? favoured : legalPlays);
+    },
+  };
+};
+
+export const getPersonalityLine = (personality: BotPersonality, moment: PersonalityMoment, random: Rng = Math.random): string => {
+  const lines = PERSONALITIES[personality].lines[moment];
+  return lines[Math.floor(random() * lines.length)];
+};
@@ -0,0 +1,79 @@
+import { Card, GameAction, GameState, GurchBot, PlayKind, PlayerModel } from '../../types';
+import { getCommanderCards } from '../engine';
+
+// Learning a human's habits across games: how often they stand pat, the votes they pick and what they
+// lead. Bots read the model from the human's seat: it tells the deal memory what standing pat means
+// (./memory), predicts votes (./voting) and shapes the bots' leads here.
+const MIN_OBSERVATIONS = 5; // Decisions seen before a habit is trusted
+const HABIT_RATE = 0.5; // How often a player must do something for it to count as a habit
+const HIGH_CARD = 11;
+
+export const emptyPlayerModel = (): PlayerModel => ({ swapChances: 0, stoodPat: 0, votes: {}, leads: 0, setLeads: 0, highLeads: 0 });
+
+// Counts what a player's accepted action shows about their habits; `state` is the table before the action
+export const learnFromAction = (model: PlayerModel, state: GameState, action: GameAction): PlayerModel => {
+  switch (action.type) {
+    case 'FIRST_SWAP_DECISION':
+    case 'OTHERS_SWAP_DECISION':
+      return { ...model, swapChances: model.swapChances + 1, stoodPat: model.stoodPat + (action.wantsToSwap ? 0 : 1) };
+    case 'FINAL_SWAP_DECISION':
+      return { ...model, swapChances: model.swapChances + 1, stoodPat: model.stoodPat + (action.participate ? 0 : 1) };
+    case 'VOTE':
+      return { ...model, votes: { ...model.votes, [action.amount]: (model.votes[action.amount] ?? 0) + 1 } };
+    case 'PLAY_CARDS':
+      if (getCommanderCards(state).length > 0 || action.cards.length === 0) return model;
+      return {
+        ...model,
+        leads: model.leads + 1,
+        setLeads: model.setLeads + (action.cards.length > 1 ? 1 : 0),
+        highLeads: model.highLeads + (action.cards[0].value >= HIGH_CARD ? 1 : 0),
+      };
+    default:
+      return model;
+  }
+};
+
+// How often a player keeps their hand when offered a swap, or undefined until there is enough to go on
+export const getStandPatRate = (model: PlayerModel): number | undefined =>
+  model.swapChances >= MIN_OBSERVATIONS ? model.stoodPat / model.swapChances : undefined;
+
+// The vote amount a player picks most of the time, if they have one
+export const getHabitualVote = (model: PlayerModel): number | undefined => {
+  const total = Object.values(model.votes).reduce((sum, count) => sum + count, 0);
+  if (total < MIN_OBSERVATIONS) return undefined;
+  const [amount, count] = Object.entries(model.votes).sort((a, b) => b[1] - a[1])[0];
+  return count / total >= HABIT_RATE ? Number(amount) : undefined;
+};
+
+const leadsSets = (model: PlayerModel): boolean =>
+  model.leads >= MIN_OBSERVATIONS && model.setLeads / model.leads >= HABIT_RATE;
+
+const leadsHigh = (model: PlayerModel): boolean =>
+  model.leads >= MIN_OBSERVATIONS && model.highLeads / model.leads >= HABIT_RATE;
+
+const isInSet = (card: Card, hand: Card[]): boolean => hand.filter(c => c.rank === card.rank).length > 1;
+
+// Bends a bot's leads to the habits of the humans it is playing against
+export const adaptToPlayers = (bot: GurchBot, state: GameState, playerId: string): GurchBot => {
+  const opponentModels = state.players.flatMap(p => p.id !== playerId && p.tendencies ? [p.tendencies] : []);
+  const opponentsLeadSets = opponentModels.some(leadsSets);
+  const opponentsLeadHigh = opponentModels.some(leadsHigh);
+  if (!opponentsLeadSets && !opponentsLeadHigh) return bot;
+
+  return {
+    ...bot,
+    // Against players who like to lead sets, sets are kept back to answer them, leading a lone card instead.
+    // Against players who like to lead high cards, high cards are kept back to beat them, leading lower.
+    choosePlay: (hand, legalPlays) => {
+      const play = bot.choosePlay(hand, legalPlays);
+      if (play.length === 0 || getCommanderCards(state).length > 0) return play;
+      const keepsSetBack = opponentsLeadSets && play.length > 1;
+      const keepsHighBack = opponentsLeadHigh && play[0].value >= HIGH_CARD;
+      if (!keepsSetBack && !keepsHighBack) return play;
+      const otherLeads = legalPlays.filter(p => p.kind === PlayKind.LEAD
+        && !(opponentsLeadSets && (p.cards.length > 1 || isInSet(p.cards[0], hand)))
+        && !(opponentsLeadHigh && p.cards[0].value >= HIGH_CARD));
+      return otherLeads.length > 0 ? bot.choosePlay(hand, otherLeads) : play;
+    },
+  };
+};
@@ -0,0 +1,21 @@
+import { GurchBotFactory } from '../../types';
+
+// Every bot a seat can be given, by name. The built-in bots are registered in ./index.ts. Register a
+// custom bot from a module that ./index.ts imports, since the bot worker, the server and the simulator
+// all load their bots through it (the simulator can also load one with --register).
+export interface RegisteredBot {
+  name: string;
+  label: string; // Shown in the lobby
+  create: GurchBotFactory;
+}
+
+const registry = new Map<string, RegisteredBot>();
+
+// Registering a name again replaces the bot behind it
+export const registerBot = (name: string, label: string, create: GurchBotFactory): void => {
+  registry.set(name, { name, label, create });
+};
+
+export const getRegisteredBots = (): RegisteredBot[] => [...registry.values()];
+
+export const findBot = (name: string): RegisteredBot | undefined => registry.get(name);
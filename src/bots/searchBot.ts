@@ -0,0 +1,84 @@
+import { Card, GameAction, GamePhase, GameState, GurchBot, Rng } from '../../types';
+import { applyAction, createDeck, getRules, getVoteAmounts, shuffleDeck } from '../engine';
+import { chooseBotAction } from './botActions';
+import { guessHiddenCards } from './memory';
+import { standardBot } from './standardBot';
+
+// The master bot searches instead of following rules of thumb. For each decision it deals the cards
+// it cannot see at random (consistent with what it has seen), plays every option out to the end of
+// the game with the rules engine, and takes the option that did best across those deals.
+export interface SearchOptions {
+  iterations?: number; // Random deals to try each option against
+  timeLimitMs?: number; // Stops early once a decision has taken this long
+  random?: Rng;
+  riskAppetite?: number; // Above 0 counts a win for more than a loss, below 0 a loss for more than a win
+}
+
+const DEFAULT_ITERATIONS = 40;
+const DEFAULT_TIME_LIMIT_MS = 300;
+const MAX_ROLLOUT_STEPS = 500; // Guards against a rollout that never finishes
+
+// Every way to pick `count` cards from the hand
+const combinations = (cards: Card[], count: number): Card[][] => {
+  if (count <= 0) return [[]];
+  if (cards.length < count) return [];
+  const [first, ...rest] = cards;
+  return [...combinations(rest, count - 1).map(combo => [first, ...combo]), ...combinations(rest, count)];
+};
+
+// Plays the game out with every seat on the standard bot and new random deals
+const rollout = (state: GameState, random: Rng): GameState => {
+  let current = state;
+  for (let step = 0; step < MAX_ROLLOUT_STEPS && current.gamePhase !== GamePhase.GAME_OVER; step++) {
+    let action: GameAction | undefined;
+    if (current.gamePhase === GamePhase.DEALING) action = { type: 'DEAL', deck: shuffleDeck(createDeck(), random) };
+    else if (current.gamePhase === GamePhase.ROUND_OVER) action = { type: 'NEXT_ROUND' };
+    else action = chooseBotAction(current, current.players[current.currentPlayerIndex].id, standardBot);
+    const result = action && applyAction(current, action);
+    if (!result || !result.ok) break;
+    current = result.state;
+  }
+  return current;
+};
+
+// Winning collects the prize and losing pays it, each weighed by the bot's appetite for risk; anything else is even
+const scoreOutcome = (state: GameState, playerId: string, riskAppetite: number): number => {
+  if (state.gameWinnerId === playerId) return (state.prize ?? 0) * (1 + riskAppetite);
+  if (state.gameLoserId === playerId) return -(state.prize ?? 0) * (1 - riskAppetite);
+  return 0;
+};
+
+export const createSearchBot = (state: GameState, playerId: string, options: SearchOptions = {}): GurchBot => {
+  const { iterations = DEFAULT_ITERATIONS, timeLimitMs = DEFAULT_TIME_LIMIT_MS, random = Math.random, riskAppetite = 0 } = options;
+
+  // Tries every choice against the same random deals and returns the one with the best total
+  const search = <T,>(choices: T[], toAction: (choice: T) => GameAction): T => {
+    if (choices.length <= 1) return choices[0];
+    const totals = choices.map(() => 0);
+    const startedAt = Date.now();
+    for (let i = 0; i < iterations && Date.now() - startedAt < timeLimitMs; i++) {
+      const guess = guessHiddenCards(state, playerId, random);
+      choices.forEach((choice, c) => {
+        const result = applyAction(guess, toAction(choice));
+        totals[c] += result.ok ? scoreOutcome(rollout(result.state, random), playerId, riskAppetite) : -Infinity;
+      });
+    }
+    const best = totals.indexOf(Math.max(...totals));
+    return choices[best === -1 ? 0 : best];
+  };
+  const yesOrNo = (toAction: (choice: boolean) => GameAction) => search([true, false], toAction);
+
+  return {
+    wantsFirstSwap: () => yesOrNo(wantsToSwap => ({ type: 'FIRST_SWAP_DECISION', playerId, wantsToSwap })),
+    wantsToMatchSwap: () => yesOrNo(wantsToSwap => ({ type: 'OTHERS_SWAP_DECISION', playerId, wantsToSwap })),
+    wantsToVote: () => yesOrNo(wantsToVote => ({ type: 'VOTE_DECISION', playerId, wantsToVote })),
+    chooseVoteAmount: () => search(getVoteAmounts(getRules(state)), amount => ({ type: 'VOTE', playerId, amount })),
+    wantsFinalSwap: () => yesOrNo(participate => ({ type: 'FINAL_SWAP_DECISION', playerId, participate })),
+    chooseSwapCards: (hand, count) => search(combinations(hand, count), cards => ({ type: 'SWAP_CARDS', playerId, cards })) ?? [],
+    chooseOneCardToSwap: (hand) => search(hand, card => ({ type: 'SELECT_ONE_CARD_SWAP', playerId, card })),
+    keepsRevealedCard: () => yesOrNo(keep => ({ type: 'ONE_CARD_SWAP_DECISION', playerId, keep })),
+    wantsMinigameSwap: () => yesOrNo(wantsToSwap => ({ type: 'MINIGAME_SWAP', playerId, wantsToSwap })),
+    choosePlay: (_hand, legalPlays) =>
+      search(legalPlays.map(play => play.cards), cards => ({ type: 'PLAY_CARDS', playerId, cards })) ?? [],
+  };
+};
@@ -0,0 +1,205 @@
+import { BotStyle, Card, GurchBot, LegalPlay, PlayKind } from '../../types';
+import { removeCards, sumCards } from '../engine';
+
+// The standard bot: an experienced player, and the level every bot played at before difficulties existed.
+// Every decision is a pure function of the bot's own hand, so it runs in the browser and on the server alike.
+
+// A bot without a personality
+export const NEUTRAL_STYLE: BotStyle = { swapBias: 0, voteBias: 0, voteShift: 0, bluffsVotes: false, discardBias: 0, riskAppetite: 0 };
+
+const MIN_WANTED_SWAP = 1;
+const MAX_WANTED_SWAP = 5;
+const MIDDLE_CARD = 8; // Neither low enough to go out on nor high enough to win tricks
+
+// Helper function to evaluate hand quality for strategic bot decisions
+export const evaluateHandQuality = (hand: Card[]): number => {
+  if (!hand || hand.length === 0) return 0;
+
+  // Count pairs, triples, quads (key for Gurch)
+  const rankCounts: {[key: string]: number} = {};
+  hand.forEach(card => {
+    rankCounts[card.rank] = (rankCounts[card.rank] || 0) + 1;
+  });
+
+  let score = 0;
+  const counts = Object.values(rankCounts);
+
+  // High value for multiple cards of same rank (key for winning rounds)
+  counts.forEach(count => {
+    if (count >= 2) score += count * 3; // Pairs/sets are very valuable
+  });
+
+  // Bonus for having low cards (good for going out)
+  const lowCards = hand.filter(c => c.value <= 5).length;
+  score += lowCards * 2;
+
+  // Bonus for having high cards (good for winning rounds)
+  const highCards = hand.filter(c => c.value >= 11).length;
+  score += highCards * 1.5;
+
+  // Penalty for scattered ranks (hard to make sets)
+  const uniqueRanks = Object.keys(rankCounts).length;
+  if (uniqueRanks === hand.length) score -= 3; // All different ranks
+
+  return score;
+};
+
+// The swap a bot votes for once its style has leaned on the amount it judged it wants
+export const styleVoteAmount = (amount: number, style: BotStyle = NEUTRAL_STYLE): number => {
+  const leaned = (style.bluffsVotes ? MIN_WANTED_SWAP + MAX_WANTED_SWAP - amount : amount) + style.voteShift;
+  return Math.max(MIN_WANTED_SWAP, Math.min(MAX_WANTED_SWAP, leaned));
+};
+
+// How much more a card is worth giving up because of the style's lean towards high or low cards
+export const discardLean = (card: Card, style: BotStyle = NEUTRAL_STYLE): number =>
+  style.discardBias * (card.value - MIDDLE_CARD) / (MIDDLE_CARD - 2);
+
+// Swap if hand quality is poor
+export const wantsFirstSwap = (hand: Card[], style: BotStyle = NEUTRAL_STYLE): boolean => evaluateHandQuality(hand) < 8 + style.swapBias;
+
+// Match someone else's swap only if hand quality is below average
+export const wantsToMatchSwap = (hand: Card[], style: BotStyle = NEUTRAL_STYLE): boolean => evaluateHandQuality(hand) < 6 + style.swapBias;
+
+// Vote if hand could be better
+export const wantsToVote = (hand: Card[], style: BotStyle = NEUTRAL_STYLE): boolean => evaluateHandQuality(hand) < 10 + style.voteBias;
+
+// Strategic vote amount based on hand assessment
+export const chooseVoteAmount = (hand: Card[], style: BotStyle = NEUTRAL_STYLE): number => {
+  const quality = evaluateHandQuality(hand);
+  if (quality < 4) return styleVoteAmount(4, style); // Desperate - need major changes
+  if (quality < 8) return styleVoteAmount(3, style); // Need improvement
+  if (quality < 12) return styleVoteAmount(2, style); // Minor tweaks
+  return styleVoteAmount(1, style); // Just need small adjustment
+};
+
+// Join the final swap if the hand still needs work after the vote went another way
+export const wantsFinalSwap = (hand: Card[], style: BotStyle = NEUTRAL_STYLE): boolean => evaluateHandQuality(hand) < 8 + style.swapBias;
+
+// Strategic function to select worst cards for swapping
+export const selectWorstCardsForSwap = (hand: Card[], count: number, style: BotStyle = NEUTRAL_STYLE): Card[] => {
+  if (!hand || hand.length === 0 || count <= 0) return [];
+
+  // Score each card based on how much it contributes to hand quality
+  const cardScores = hand.map(card => {
+    // Simulate removing this card and see impact on hand quality
+    const remainingHand = hand.filter(c => c.rank !== card.rank || c.suit !== card.suit);
+    const qualityAfterRemoval = evaluateHandQuality(remainingHand);
+
+    // Factor in isolation (cards without pairs are better to discard)
+    const hasMatching = hand.filter(c => c.rank === card.rank).length > 1;
+    const isolationBonus = hasMatching ? 0 : 3; // Bonus for discarding isolated cards
+
+    // High cards are sometimes good to keep (for winning) but also risky
+    const valueConsideration = card.value > 10 ? -1 : 1; // Slight preference to keep high cards
+
+    return {
+      card,
+      discardScore: qualityAfterRemoval + isolationBonus + valueConsideration + discardLean(card, style)
+    };
+  });
+
+  // Sort by discard score (higher score = better to discard)
+  cardScores.sort((a, b) => b.discardScore - a.discardScore);
+
+  // Return the worst cards up to the count needed
+  return cardScores.slice(0, Math.min(count, cardScores.length)).map(item => item.card);
+};
+
+// Strategic card selection for the 1-card swap: find the card that least contributes to hand quality
+export const chooseOneCardToSwap = (hand: Card[], style: BotStyle = NEUTRAL_STYLE): Card => {
+  let worstCard = hand[0];
+  let worstScore = -Infinity;
+
+  hand.forEach(card => {
+    // Simulate removing this card and see how it affects hand quality
+    const remainingHand = hand.filter(c => c.rank !== card.rank || c.suit !== card.suit);
+    const qualityAfterRemoval = evaluateHandQuality(remainingHand);
+
+    // Also consider if this card is isolated (no pairs)
+    const hasMatching = hand.filter(c => c.rank === card.rank).length > 1;
+    const isolationPenalty = hasMatching ? 0 : 2; // Prefer removing isolated cards
+
+    const score = qualityAfterRemoval - isolationPenalty + discardLean(card, style);
+
+    if (score > worstScore || (score === worstScore && card.value > worstCard.value)) {
+      worstScore = score;
+      worstCard = card;
+    }
+  });
+
+  return worstCard;
+};
+
+// Keep the revealed card if it's better than the worst card in hand. Note: a lower value is better in this game.
+export const keepsRevealedCard = (hand: Card[], revealedCard: Card): boolean => {
+  const highestCard = Math.max(...hand.map(c => c.value));
+  return revealedCard.value < highestCard;
+};
+
+// Picks one of the engine's legal plays, so bots can never attempt an illegal move
+export const findBestPlayForBot = (hand: Card[], legalPlays: LegalPlay[]): Card[] => {
+  // Safety check: ensure we have cards to play
+  if (legalPlays.length === 0) {
+    console.error(`[ERROR] findBestPlayForBot: no legal plays for hand of ${hand.length} card(s)`);
+    return [];
+  }
+
+  const playsOfKind = (kind: PlayKind) => legalPlays.filter(play => play.kind === kind);
+  const byLowestTotal = (plays: LegalPlay[]) => [...plays].sort((a, b) => sumCards(a.cards) - sumCards(b.cards));
+
+  const leads = playsOfKind(PlayKind.LEAD);
+  if (leads.length > 0) { // Bot is leading: play its biggest set, highest rank first
+    const sortedLeads = [...leads].sort((a, b) => {
+      if (a.cards.length !== b.cards.length) return b.cards.length - a.cards.length;
+      return b.cards[0].value - a.cards[0].value;
+    });
+    return sortedLeads[0].cards;
+  }
+
+  // ENHANCED Bot Strategy:
+  // 1. If winning sets are available, play strategically
+  const winningPlays = playsOfKind(PlayKind.WINNING_SET);
+  if (winningPlays.length > 0) {
+    // Strategic choice: if multiple winning options, consider which preserves better hand
+    if (winningPlays.length > 1) {
+      // Prefer plays that keep pairs/sets in hand for future rounds, then the cheapest set
+      const sortedPlays = byLowestTotal(winningPlays).sort((a, b) => {
+        const qualityAfterA = evaluateHandQuality(removeCards(hand, a.cards)!);
+        const qualityAfterB = evaluateHandQuality(removeCards(hand, b.cards)!);
+        return qualityAfterB - qualityAfterA; // Prefer play that leaves better hand
+      });
+      return sortedPlays[0].cards;
+    }
+    return winningPlays[0].cards;
+  }
+
+  // 2. If no winning set but can "beat and sacrifice" or "equal and sacrifice", prefer beating (more aggressive)
+  const beatAndSacrificePlays = playsOfKind(PlayKind.BEAT_AND_SACRIFICE);
+  if (beatAndSacrificePlays.length > 0) {
+    return byLowestTotal(beatAndSacrificePlays)[0].cards;
+  }
+  const equalAndSacrificePlays = playsOfKind(PlayKind.EQUAL_AND_SACRIFICE);
+  if (equalAndSacrificePlays.length > 0) {
+    return byLowestTotal(equalAndSacrificePlays)[0].cards;
+  }
+
+  // 3. Otherwise, sacrifice the lowest cards.
+  return legalPlays[0].cards;
+};
+
+export const createStandardBot = (style: BotStyle = NEUTRAL_STYLE): GurchBot => ({
+  wantsFirstSwap: (hand) => wantsFirstSwap(hand, style),
+  wantsToMatchSwap: (hand) => wantsToMatchSwap(hand, style),
+  wantsToVote: (hand) => wantsToVote(hand, style),
+  chooseVoteAmount: (hand) => chooseVoteAmount(hand, style),
+  wantedSwap: (hand) => chooseVoteAmount(hand, { ...style, bluffsVotes: false }),
+  wantsFinalSwap: (hand) => wantsFinalSwap(hand, style),
+  chooseSwapCards: (hand, count) => selectWorstCardsForSwap(hand, count, style),
+  chooseOneCardToSwap: (hand) => chooseOneCardToSwap(hand, style),
+  keepsRevealedCard,
+  // For now, bots will not swap in minigame for simplicity
+  wantsMinigameSwap: () => false,
+  choosePlay: findBestPlayForBot,
+});
+
+export const standardBot: GurchBot = createStandardBot();
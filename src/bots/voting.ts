@@ -0,0 +1,68 @@
+import { Card, GameState, GurchBot } from '../../types';
+import { clampVote, getRules, getVoteAmounts, tallyVotes } from '../engine';
+import { getHabitualVote } from './playerModel';
+
+// Voting with the whole vote in mind rather than the bot's own hand alone. The most common amount wins,
+// ties going to the lowest (or whatever the house rules say). A player who voted for the winning amount has to swap that many cards;
+// everyone else chooses whether to join. So a bot votes for the amount it wants only when its vote
+// helps that amount win. When the result is settled either way, it votes for something else and keeps
+// the choice to stay out.
+
+// Roughly how often players vote each amount, for voters whose vote the bot cannot predict. 0 is only
+// allowed under some house rules.
+const VOTE_PRIOR: { [amount: number]: number } = { 0: 0.3, 1: 0.4, 2: 0.25, 3: 0.2, 4: 0.12, 5: 0.03 };
+
+// How much the bot likes swapping `amount` cards when it would rather swap `wanted`; standing pat is 0 cards
+const swapValue = (wanted: number, amount: number): number => -Math.abs(amount - wanted);
+
+// Joins a swap it did not vote for if that beats keeping its hand
+const joinsSwap = (wanted: number, voteResult: number): boolean => swapValue(wanted, voteResult) >= swapValue(wanted, 0);
+
+// Every way the votes still to come could fall, with how likely each is. A human's habitual vote is taken
+// as given; anyone else's follows the prior.
+const possibleVotes = (state: GameState, playerId: string): { votes: number[]; chance: number }[] => {
+  const others = state.players.filter(p => p.id !== playerId && p.wantsToVote && !p.hasStoodPat);
+  const amounts = getVoteAmounts(getRules(state));
+  return others.reduce((outcomes, player) => {
+    const known = player.hasVoted ? player.swapVote : player.tendencies && getHabitualVote(player.tendencies);
+    const choices = known !== undefined ? [{ amount: known, chance: 1 }] : amounts.map(amount => ({ amount, chance: VOTE_PRIOR[amount] ?? 0 }));
+    return outcomes.flatMap(o => choices.map(c => ({ votes: [...o.votes, c.amount], chance: o.chance * c.chance })));
+  }, [{ votes: [] as number[], chance: 1 }]);
+};
+
+// The vote with the best expected outcome, counting the bot's choice to join or stay out when it loses
+export const chooseStrategicVote = (state: GameState, playerId: string, wanted: number): number => {
+  const rules = getRules(state);
+  const outcomes = possibleVotes(state, playerId);
+  const expectedValue = (vote: number) => outcomes.reduce((total, { votes, chance }) => {
+    const result = tallyVotes([...votes, vote], rules);
+    const value = result === vote ? swapValue(wanted, result) : Math.max(swapValue(wanted, result), swapValue(wanted, 0));
+    return total + chance * value;
+  }, 0);
+  // The amount it wants comes first, so it only votes otherwise when that does strictly better
+  const first = clampVote(rules, wanted);
+  const candidates = [first, ...getVoteAmounts(rules).filter(amount => amount !== first)];
+  return candidates.reduce((best, vote) => expectedValue(vote) > expectedValue(best) ? vote : best);
+};
+
+// Whether `vote` could end up the winning amount, however the votes still to come fall
+const canWin = (state: GameState, playerId: string, vote: number): boolean => {
+  const rules = getRules(state);
+  return possibleVotes(state, playerId).some(({ votes, chance }) => chance > 0 && tallyVotes([...votes, vote], rules) === vote);
+};
+
+// Gives a bot strategic votes and a final swap decision that matches them, both worked out from how many
+// cards it really wants to swap. A bluffed vote is only cast when it cannot win, since winning voters
+// have to swap that many cards.
+export const voteStrategically = (bot: GurchBot, state: GameState, playerId: string): GurchBot => {
+  const wantedSwap = (hand: Card[]) => bot.wantedSwap?.(hand) ?? bot.chooseVoteAmount(hand);
+  return {
+    ...bot,
+    chooseVoteAmount: (hand) => {
+      const bluff = clampVote(getRules(state), bot.chooseVoteAmount(hand));
+      const wanted = wantedSwap(hand);
+      return bluff !== wanted && !canWin(state, playerId, bluff) ? bluff : chooseStrategicVote(state, playerId, wanted);
+    },
+    wantsFinalSwap: (hand) => state.voteResult > 0 ? joinsSwap(wantedSwap(hand), state.voteResult) : bot.wantsFinalSwap(hand),
+  };
+};
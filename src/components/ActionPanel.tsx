@@ -1,6 +1,7 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { GameState, Card, GamePhase } from '../../types';
+import { GameState, Card, GamePhase, PlayValidation } from '../../types';
+import { describeInvalidPlay, getCommanderCards, getRules, getVoteAmounts } from '../engine';
 import ConfirmationModal from './ConfirmationModal';
 
 interface ActionPanelProps {
@@ -16,6 +17,9 @@ interface ActionPanelProps {
   onPlayCards: () => void;
   onMinigameSwap: (wantsToSwap: boolean) => void;
   onVoteDecision: (wantsToVote: boolean) => void;
+  invalidPlay?: PlayValidation | null; // Why the human's last attempted play was rejected
+  playHint?: string | null; // What the hint button suggested this turn
+  onHint?: () => void;
 }
 
 interface ActionButtonProps {
@@ -122,7 +126,7 @@ const ActionButton: React.FC<ActionButtonProps> = ({
 
 
 const ActionPanel: React.FC<ActionPanelProps> = (props) => {
-    const { gameState, selectedCards, timer, onSwapDecision, onConfirmSwap, onOtherPlayerSwap, onVote, onFinalSwapDecision, onFinalSwap, onPlayCards, onMinigameSwap, onVoteDecision } = props;
+    const { gameState, selectedCards, timer, onSwapDecision, onConfirmSwap, onOtherPlayerSwap, onVote, onFinalSwapDecision, onFinalSwap, onPlayCards, onMinigameSwap, onVoteDecision, invalidPlay, playHint, onHint } = props;
     const humanPlayer = gameState.players.find(p => p.isHuman);
     const isHumanTurn = gameState.players[gameState.currentPlayerIndex]?.isHuman;
     
@@ -353,7 +357,7 @@ const ActionPanel: React.FC<ActionPanelProps> = (props) => {
                         <div>
                             <p className="text-sm font-medium text-amber-100 mb-3">Vote for how many cards to swap:</p>
                             <div className="flex flex-wrap justify-center gap-1 sm:gap-1">
-                                {[1, 2, 3, 4, 5].map(n => <ActionButton key={n} onClick={() => onVote(n)} size="sm">{n}</ActionButton>)}
+                                {getVoteAmounts(getRules(gameState)).map(n => <ActionButton key={n} onClick={() => onVote(n)} size="sm">{n}</ActionButton>)}
                             </div>
                         </div>
                     )
@@ -393,7 +397,24 @@ const ActionPanel: React.FC<ActionPanelProps> = (props) => {
                 }
                 break;
             case GamePhase.GAMEPLAY:
-                // Don't show ActionPanel during gameplay - use floating play button instead
+                // Cards are played with the floating play button; the panel only offers a hint and explains
+                // why the last play was rejected
+                if (isHumanTurn) {
+                    return (
+                        <div className="text-amber-100">
+                            {invalidPlay && !invalidPlay.valid && (
+                                <>
+                                    <p className="text-sm font-bold text-red-300 mb-1">That play breaks the rules</p>
+                                    <p className="text-sm font-medium mb-2">{describeInvalidPlay(invalidPlay, getCommanderCards(gameState))}</p>
+                                </>
+                            )}
+                            <div className="flex items-center justify-between space-x-3">
+                                <p className="text-sm font-medium">{playHint ?? 'Your turn to play.'}</p>
+                                {onHint && <ActionButton onClick={onHint} disabled={!!playHint} color="bg-gray-600 hover:bg-gray-500" size="sm">Hint</ActionButton>}
+                            </div>
+                        </div>
+                    );
+                }
                 return null;
             case GamePhase.MINIGAME_SWAP:
                 if (isHumanTurn) {
@@ -0,0 +1,36 @@
+import React from 'react';
+import { ChipReason, Match, Player } from '../../types';
+
+interface ChipLedgerProps {
+  match: Match;
+  players: Player[]; // Everyone who played in the match, busted players included
+}
+
+// Where the chips went in each game of a chip match: the antes, who took the pot and who paid the prize
+const ChipLedger: React.FC<ChipLedgerProps> = ({ match, players }) => {
+  const nameOf = (playerId: string) => players.find(p => p.id === playerId)?.name ?? playerId;
+
+  return (
+    <div className="p-4 bg-black/30 rounded-lg text-left">
+      <h3 className="text-xl font-semibold text-gray-300 mb-3">Chip Ledger</h3>
+      <ol className="space-y-2 text-sm">
+        {match.games.map((game, index) => {
+          const transfers = game.chipTransfers ?? [];
+          const antes = transfers.filter(t => t.reason === ChipReason.ANTE);
+          const pot = transfers.find(t => t.reason === ChipReason.POT);
+          const prizePaid = transfers.find(t => t.reason === ChipReason.PRIZE && t.amount < 0);
+          return (
+            <li key={index} className="text-gray-200">
+              <span className="font-semibold text-gray-400 mr-2">Game {index + 1}</span>
+              {antes.length} ante{antes.length === 1 ? '' : 's'} of {antes.length > 0 ? -antes[0].amount : 0}
+              {pot && <>; {nameOf(pot.playerId)} took the pot of {pot.amount}</>}
+              {prizePaid && game.winnerId && <>; {nameOf(prizePaid.playerId)} paid {nameOf(game.winnerId)} {-prizePaid.amount}</>}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default ChipLedger;
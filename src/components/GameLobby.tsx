@@ -1,19 +1,98 @@
 
 import React, { useState } from 'react';
-import { GameMode } from '../../types';
+import { BotDifficulty, GameMode, MatchSettings, NewGameOptions, RuleSet, SavedGame, TableTransport } from '../../types';
+import { STANDARD_RULES, getRuleSetProblems } from '../engine';
+import { DEFAULT_EXTERNAL_BOT_URL, EXTERNAL_BOT, PERSONALITIES, getPersonalityForBot, getRegisteredBots } from '../bots';
+import { isLearningEnabled, resetPlayerModels, setLearningEnabled } from '../services/playerModelService';
+import SessionLedger from './SessionLedger';
+import RulesPanel from './RulesPanel';
 
 interface GameLobbyProps {
-  onStartGame: (numPlayers: number, mode: GameMode) => void;
+  onStartGame: (options: NewGameOptions) => void;
+  savedGame?: SavedGame | null;
+  onResumeGame?: () => void;
+  onCreateRoom: (name: string, seatCount: number, transport: TableTransport, rules?: RuleSet) => void;
+  onJoinRoom: (code: string, name: string, transport: TableTransport) => void;
+  onlineError?: string | null;
 }
 
-const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame }) => {
+const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, savedGame, onResumeGame, onCreateRoom, onJoinRoom, onlineError }) => {
   const [numPlayers, setNumPlayers] = useState<number>(3);
   const [gameMode, setGameMode] = useState<GameMode>(GameMode.VS_BOTS);
+  const [seed, setSeed] = useState<string>('');
+  const [humanPlayers, setHumanPlayers] = useState<number>(2);
+  const [botNames, setBotNames] = useState<string[]>([BotDifficulty.STANDARD, BotDifficulty.STANDARD, BotDifficulty.STANDARD]);
+
+  const humanSeats = gameMode === GameMode.PASS_AND_PLAY ? Math.min(humanPlayers, numPlayers) : 1;
+  const botSeats = numPlayers - humanSeats;
+  const setBotName = (botIndex: number, botName: string) =>
+    setBotNames(prev => prev.map((name, i) => i === botIndex ? botName : name));
+  // Every seat given to an external bot asks the same program
+  const [botUrl, setBotUrl] = useState<string>(DEFAULT_EXTERNAL_BOT_URL);
+  const botChoices = [...getRegisteredBots(), { name: EXTERNAL_BOT, label: 'External' }];
+  const hasExternalBot = botNames.slice(0, botSeats).includes(EXTERNAL_BOT);
+  const [playerName, setPlayerName] = useState<string>('');
+  const [roomCode, setRoomCode] = useState<string>('');
+  const [transport, setTransport] = useState<TableTransport>(TableTransport.SERVER);
+  const [showLedger, setShowLedger] = useState<boolean>(false);
+  // House rules are checked against the table size, and a game cannot start on rules that do not fit
+  const [rules, setRules] = useState<RuleSet>(STANDARD_RULES);
+  const ruleProblems = getRuleSetProblems(rules, numPlayers);
+  // A match keeps playing games until someone reaches the target score or the games run out; a blank field is no limit
+  const [isMatch, setIsMatch] = useState<boolean>(false);
+  const [targetScore, setTargetScore] = useState<string>('50');
+  const [dealLimit, setDealLimit] = useState<string>('');
+  const readLimit = (value: string) => Number.isInteger(Number(value)) && Number(value) > 0 ? Number(value) : undefined;
+  // Chip matches also end when too few players have chips left
+  const [playForChips, setPlayForChips] = useState<boolean>(false);
+  const [startingChips, setStartingChips] = useState<string>('100');
+  const [ante, setAnte] = useState<string>('5');
+  const chips = playForChips && readLimit(startingChips) !== undefined && readLimit(ante) !== undefined
+    ? { startingChips: readLimit(startingChips)!, ante: readLimit(ante)! }
+    : undefined;
+  const matchSettings: MatchSettings | undefined = isMatch ? { targetScore: readLimit(targetScore), dealLimit: readLimit(dealLimit), chips } : undefined;
+  const canStart = !matchSettings || (playForChips
+    ? chips !== undefined
+    : matchSettings.targetScore !== undefined || matchSettings.dealLimit !== undefined);
+  // Bots learn each human's habits over the games they play; this switches that off or starts it over
+  const [learning, setLearning] = useState<boolean>(() => isLearningEnabled());
+  const [hasForgotten, setHasForgotten] = useState<boolean>(false);
+  const toggleLearning = (enabled: boolean) => {
+    setLearningEnabled(enabled);
+    setLearning(enabled);
+  };
+  const forgetHabits = () => {
+    resetPlayerModels();
+    setHasForgotten(true);
+  };
 
   return (
     <div className="flex items-center justify-center h-full">
       <div className="bg-gray-800 p-8 rounded-xl shadow-2xl border border-gray-700 w-full max-w-md">
-        <h2 className="text-3xl font-bold text-center mb-6 text-cyan-300">New Game</h2>
+        {savedGame && onResumeGame && (
+          <div className="mb-6 p-4 rounded-lg border-2 border-amber-500 bg-amber-500/10">
+            <p className="text-sm text-amber-200 mb-3">
+              You have an unfinished {savedGame.log.players.length}-player game from {new Date(savedGame.savedAt).toLocaleString()}.
+            </p>
+            <button
+              onClick={onResumeGame}
+              className="w-full bg-amber-600 hover:bg-amber-500 text-white font-bold py-3 text-lg rounded-lg shadow-lg transition-transform duration-200 transform hover:scale-105"
+            >
+              <i className="fas fa-play mr-2"></i>Resume Game
+            </button>
+          </div>
+        )}
+
+        <div className="relative mb-6">
+          <h2 className="text-3xl font-bold text-center text-cyan-300">New Game</h2>
+          <button
+            onClick={() => setShowLedger(true)}
+            title="Who owes whom this session"
+            className="absolute right-0 top-1/2 -translate-y-1/2 text-sm text-cyan-400 hover:text-cyan-300"
+          >
+            <i className="fas fa-receipt mr-1"></i>Settle Up
+          </button>
+        </div>
         
         <div className="mb-6">
           <label className="block text-lg font-semibold mb-2 text-gray-300">Number of Players</label>
@@ -42,6 +121,12 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame }) => {
               text="VS Bots"
               active={gameMode === GameMode.VS_BOTS}
               onClick={() => setGameMode(GameMode.VS_BOTS)}
+            />
+            <LobbyButton
+              icon="fa-people-arrows"
+              text="Pass and Play"
+              active={gameMode === GameMode.PASS_AND_PLAY}
+              onClick={() => setGameMode(GameMode.PASS_AND_PLAY)}
             />
              <LobbyButton
               icon="fa-glass-cheers"
@@ -54,19 +139,278 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame }) => {
               icon="fa-user-friends"
               text="Play with Friends"
               active={gameMode === GameMode.FRIENDS}
-              onClick={() => {}}
-              disabled={true}
+              onClick={() => setGameMode(GameMode.FRIENDS)}
             />
           </div>
         </div>
 
-        <button 
-          onClick={() => onStartGame(numPlayers, gameMode)}
-          className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-4 text-xl rounded-lg shadow-lg transition-transform duration-200 transform hover:scale-105"
-        >
-          Start Game
-        </button>
+        <RulesPanel rules={rules} problems={ruleProblems} onChange={setRules} />
+
+        {gameMode === GameMode.FRIENDS ? (
+          <>
+            <div className="mb-6">
+              <label htmlFor="player-name" className="block text-lg font-semibold mb-2 text-gray-300">Your Name</label>
+              <input
+                id="player-name"
+                type="text"
+                value={playerName}
+                onChange={(e) => setPlayerName(e.target.value)}
+                placeholder="Player"
+                maxLength={16}
+                className="w-full bg-gray-700 border-2 border-gray-600 focus:border-cyan-500 rounded-lg px-4 py-3 text-lg outline-none"
+              />
+            </div>
+
+            <label className="flex items-center mb-6 text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={transport === TableTransport.BROWSER_TABS}
+                onChange={(e) => setTransport(e.target.checked ? TableTransport.BROWSER_TABS : TableTransport.SERVER)}
+                className="mr-3 w-5 h-5 accent-cyan-500"
+              />
+              <span>
+                Play across tabs on this device
+                <span className="block text-xs text-gray-400">No server needed; the tab that creates the room hosts it.</span>
+              </span>
+            </label>
+
+            {onlineError && <p className="mb-4 text-sm text-red-400">{onlineError}</p>}
+
+            <button
+              onClick={() => onCreateRoom(playerName, numPlayers, transport, rules)}
+              disabled={ruleProblems.length > 0}
+              className="w-full bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-4 text-xl rounded-lg shadow-lg transition-transform duration-200 transform hover:scale-105"
+            >
+              Create Room
+            </button>
+
+            <div className="mt-6 flex space-x-2">
+              <input
+                type="text"
+                value={roomCode}
+                onChange={(e) => setRoomCode(e.target.value)}
+                placeholder="Room code"
+                aria-label="Room code"
+                maxLength={4}
+                className="flex-1 min-w-0 bg-gray-700 border-2 border-gray-600 focus:border-cyan-500 rounded-lg px-4 py-3 text-lg font-mono uppercase outline-none"
+              />
+              <button
+                onClick={() => onJoinRoom(roomCode, playerName, transport)}
+                disabled={roomCode.trim().length === 0}
+                className="bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold px-6 rounded-lg"
+              >
+                Join Room
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            {gameMode === GameMode.PASS_AND_PLAY && (
+              <div className="mb-6">
+                <label className="block text-lg font-semibold mb-2 text-gray-300">Human Players</label>
+                <div className="flex justify-center space-x-4">
+                  {Array.from({ length: numPlayers - 1 }, (_, index) => index + 2).map((num) => (
+                    <button
+                      key={num}
+                      onClick={() => setHumanPlayers(num)}
+                      className={`px-6 py-3 rounded-lg text-xl font-bold transition-all duration-200 ${
+                        Math.min(humanPlayers, numPlayers) === num
+                        ? 'bg-cyan-500 text-white shadow-lg scale-105'
+                        : 'bg-gray-700 hover:bg-gray-600'
+                      }`}
+                    >
+                      {num}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-400">Bots take the other seats. Hand the device around when the game asks.</p>
+              </div>
+            )}
+
+            {gameMode === GameMode.VS_BOTS && (
+              <div className="mb-6">
+                <label htmlFor="local-player-name" className="block text-lg font-semibold mb-2 text-gray-300">Your Name</label>
+                <input
+                  id="local-player-name"
+                  type="text"
+                  value={playerName}
+                  onChange={(e) => setPlayerName(e.target.value)}
+                  placeholder="You"
+                  maxLength={16}
+                  className="w-full bg-gray-700 border-2 border-gray-600 focus:border-cyan-500 rounded-lg px-4 py-3 text-lg outline-none"
+                />
+              </div>
+            )}
+
+            {botSeats > 0 && (
+              <div className="mb-6">
+                <label className="block text-lg font-semibold mb-2 text-gray-300">Bots</label>
+                <div className="space-y-2">
+                  {Array.from({ length: botSeats }, (_, botIndex) => (
+                    <div key={botIndex} className="flex items-center">
+                      <span className="w-16 text-gray-300">{PERSONALITIES[getPersonalityForBot(botIndex)].name}</span>
+                      <div className="flex flex-1 space-x-1">
+                        {botChoices.map(bot => (
+                          <button
+                            key={bot.name}
+                            onClick={() => setBotName(botIndex, bot.name)}
+                            className={`flex-1 py-1 rounded text-sm font-semibold transition-all duration-200 ${
+                              botNames[botIndex] === bot.name
+                              ? 'bg-cyan-500 text-white'
+                              : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                            }`}
+                          >
+                            {bot.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-3 flex items-center justify-between">
+                  <label className="flex items-center text-sm text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={learning}
+                      onChange={(e) => toggleLearning(e.target.checked)}
+                      className="mr-2 w-4 h-4 accent-cyan-500"
+                    />
+                    Bots learn my habits
+                  </label>
+                  <button
+                    onClick={forgetHabits}
+                    disabled={hasForgotten}
+                    className="text-sm text-cyan-400 hover:text-cyan-300 disabled:text-gray-500 disabled:cursor-default"
+                  >
+                    {hasForgotten ? 'Forgotten' : 'Forget what they learned'}
+                  </button>
+                </div>
+                {hasExternalBot && (
+                  <div className="mt-3">
+                    <label htmlFor="bot-url" className="block text-sm font-semibold mb-1 text-gray-300">External bot URL</label>
+                    <input
+                      id="bot-url"
+                      type="text"
+                      value={botUrl}
+                      onChange={(e) => setBotUrl(e.target.value)}
+                      className="w-full bg-gray-700 border-2 border-gray-600 focus:border-cyan-500 rounded-lg px-3 py-2 font-mono text-sm outline-none"
+                    />
+                    <p className="mt-1 text-xs text-gray-400">A program answering there plays those seats; the standard bot covers for it if it does not answer. Try <code>npm run bot-stub</code>.</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="mb-6">
+              <label className="block text-lg font-semibold mb-2 text-gray-300">Length</label>
+              <div className="flex space-x-2">
+                {[false, true].map(match => (
+                  <button
+                    key={String(match)}
+                    onClick={() => setIsMatch(match)}
+                    className={`flex-1 py-2 rounded-lg font-semibold transition-all duration-200 ${
+                      isMatch === match ? 'bg-cyan-500 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                    }`}
+                  >
+                    {match ? 'Match' : 'Single Game'}
+                  </button>
+                ))}
+              </div>
+              {isMatch && (
+                <div className="mt-3 flex space-x-3">
+                  <label className="flex-1 text-sm text-gray-300">
+                    Target score
+                    <input
+                      type="number"
+                      min={1}
+                      value={targetScore}
+                      onChange={(e) => setTargetScore(e.target.value)}
+                      placeholder="None"
+                      className="mt-1 w-full bg-gray-700 border-2 border-gray-600 focus:border-cyan-500 rounded-lg px-3 py-2 outline-none"
+                    />
+                  </label>
+                  <label className="flex-1 text-sm text-gray-300">
+                    Number of deals
+                    <input
+                      type="number"
+                      min={1}
+                      value={dealLimit}
+                      onChange={(e) => setDealLimit(e.target.value)}
+                      placeholder="None"
+                      className="mt-1 w-full bg-gray-700 border-2 border-gray-600 focus:border-cyan-500 rounded-lg px-3 py-2 outline-none"
+                    />
+                  </label>
+                </div>
+              )}
+              {isMatch && (
+                <>
+                  <label className="mt-3 flex items-center text-sm text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={playForChips}
+                      onChange={(e) => setPlayForChips(e.target.checked)}
+                      className="mr-2 w-4 h-4 accent-cyan-500"
+                    />
+                    Play for chips
+                  </label>
+                  {playForChips && (
+                    <div className="mt-2 flex space-x-3">
+                      <label className="flex-1 text-sm text-gray-300">
+                        Starting chips
+                        <input
+                          type="number"
+                          min={1}
+                          value={startingChips}
+                          onChange={(e) => setStartingChips(e.target.value)}
+                          className="mt-1 w-full bg-gray-700 border-2 border-gray-600 focus:border-cyan-500 rounded-lg px-3 py-2 outline-none"
+                        />
+                      </label>
+                      <label className="flex-1 text-sm text-gray-300">
+                        Ante
+                        <input
+                          type="number"
+                          min={1}
+                          value={ante}
+                          onChange={(e) => setAnte(e.target.value)}
+                          className="mt-1 w-full bg-gray-700 border-2 border-gray-600 focus:border-cyan-500 rounded-lg px-3 py-2 outline-none"
+                        />
+                      </label>
+                    </div>
+                  )}
+                  {playForChips && <p className="mt-1 text-xs text-gray-400">Everyone antes each game and the winner takes the pot, plus the prize from the loser. Run out of chips and you're out.</p>}
+                </>
+              )}
+              {isMatch && !canStart && (
+                <p className="mt-1 text-xs text-red-400">
+                  {playForChips ? 'Set the starting chips and the ante.' : 'Set a target score, a number of deals, or both.'}
+                </p>
+              )}
+            </div>
+
+            <div className="mb-8">
+              <label htmlFor="game-seed" className="block text-lg font-semibold mb-2 text-gray-300">Seed <span className="text-sm font-normal text-gray-400">(optional)</span></label>
+              <input
+                id="game-seed"
+                type="text"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                placeholder="Random"
+                className="w-full bg-gray-700 border-2 border-gray-600 focus:border-cyan-500 rounded-lg px-4 py-3 text-lg font-mono uppercase outline-none"
+              />
+              <p className="mt-1 text-xs text-gray-400">Enter a seed from another game to play the same deals.</p>
+            </div>
+
+            <button 
+              onClick={() => onStartGame({ numPlayers, mode: gameMode, seed, humanPlayers: humanSeats, botNames: botNames.slice(0, botSeats), botUrl: botUrl.trim(), playerName, match: matchSettings, rules })}
+              disabled={!canStart || ruleProblems.length > 0}
+              className="w-full bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-4 text-xl rounded-lg shadow-lg transition-transform duration-200 transform hover:scale-105"
+            >
+              {isMatch ? 'Start Match' : 'Start Game'}
+            </button>
+          </>
+        )}
       </div>
+      {showLedger && <SessionLedger onClose={() => setShowLedger(false)} />}
     </div>
   );
 };
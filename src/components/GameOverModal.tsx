@@ -1,16 +1,21 @@
 
 import React from 'react';
-import { Player, Card } from '../../types';
+import { Player, Card, Match } from '../../types';
+import { isMatchOver } from '../engine';
 import CardComponent from './Card'; // Import the Card component
+import MatchStandings from './MatchStandings';
 
 interface GameOverModalProps {
   players: Player[];
   winnerId?: string;
   loserId?: string;
+  prize?: number;
   onPlayAgain: () => void;
+  onWatchReplay?: () => void;
+  match?: Match; // The match this game belongs to, with this game counted
 }
 
-const GameOverModal: React.FC<GameOverModalProps> = ({ players, winnerId, loserId, onPlayAgain }) => {
+const GameOverModal: React.FC<GameOverModalProps> = ({ players, winnerId, loserId, prize, onPlayAgain, onWatchReplay, match }) => {
   const winner = players.find(p => p.id === winnerId);
   const loser = players.find(p => p.id === loserId);
 
@@ -31,14 +36,14 @@ const GameOverModal: React.FC<GameOverModalProps> = ({ players, winnerId, loserI
               )}
 
               <div className="mb-8 p-4 bg-black/30 rounded-lg">
-                  <h3 className="text-xl font-semibold text-gray-300 mb-4 border-b border-gray-600 pb-2">Final Hands</h3>
+                  <h3 className="text-xl font-semibold text-gray-300 mb-4 border-b border-gray-600 pb-2">Final Plays</h3>
                   <div className="space-y-4">
                       {players.map(player => (
                           <div key={player.id} className={`flex items-center p-2 rounded-lg ${player.id === loserId ? 'bg-red-500/20' : ''}`}>
                               <img src={player.avatar} alt={player.name} className="w-12 h-12 rounded-full border-2 border-gray-400" />
                               <p className="ml-4 text-lg font-semibold flex-1 text-left">{player.name}</p>
                               <div className="flex space-x-1">
-                                  {player.hand.map((card, index) => (
+                                  {player.playedCards.map((card, index) => (
                                       <CardComponent key={index} card={card} small={true} />
                                   ))}
                               </div>
@@ -54,17 +59,33 @@ const GameOverModal: React.FC<GameOverModalProps> = ({ players, winnerId, loserI
                     <img src={loser.avatar} alt={loser.name} className="w-16 h-16 rounded-full border-2 border-red-400" />
                     <p className="ml-4 text-xl">{loser.name}</p>
                   </div>
-                   <p className="text-gray-400 mt-2">With a hand value of {loser.hand.reduce((sum, card) => sum + card.value, 0)}</p>
+                   <p className="text-gray-400 mt-2">With a final play worth {prize ?? loser.playedCards.reduce((sum, card) => sum + card.value, 0)}</p>
+                </div>
+              )}
+
+              {match && (
+                <div className="mb-8">
+                  <MatchStandings match={match} players={players} />
                 </div>
               )}
           </div>
 
-          <button
-            onClick={onPlayAgain}
-            className="bg-green-600 hover:bg-green-500 text-white font-bold py-3 px-8 text-xl rounded-lg shadow-lg transition-transform duration-200 transform hover:scale-105 mt-auto"
-          >
-            Play Again
-          </button>
+          <div className="flex flex-col sm:flex-row gap-3 justify-center mt-auto">
+            {onWatchReplay && (
+              <button
+                onClick={onWatchReplay}
+                className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-3 px-8 text-xl rounded-lg shadow-lg transition-transform duration-200 transform hover:scale-105"
+              >
+                Watch Replay
+              </button>
+            )}
+            <button
+              onClick={onPlayAgain}
+              className="bg-green-600 hover:bg-green-500 text-white font-bold py-3 px-8 text-xl rounded-lg shadow-lg transition-transform duration-200 transform hover:scale-105"
+            >
+              {!match ? 'Play Again' : isMatchOver(match, players) ? 'Final Standings' : 'Next Game'}
+            </button>
+          </div>
         </div>
     </div>
   );
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Match, Player } from '../../types';
+import { getMatchStandings } from '../engine';
+import ChipLedger from './ChipLedger';
+
+interface MatchStandingsProps {
+  match: Match;
+  players: Player[];
+}
+
+// The match so far: each player's prize game by game and their running total (chips, in a chip match), leader first
+const MatchStandings: React.FC<MatchStandingsProps> = ({ match, players }) => {
+  const { targetScore, dealLimit, chips } = match.settings;
+  const standings = getMatchStandings(match, players);
+  const isBusted = (player: Player) => (match.busted ?? []).some(p => p.id === player.id);
+  const goals = [
+    targetScore !== undefined ? `first to ${targetScore} points` : undefined,
+    dealLimit !== undefined ? `${dealLimit} games` : undefined,
+  ].filter(Boolean).join(' or ');
+
+  return (
+    <div className="p-4 bg-black/30 rounded-lg">
+      <h3 className="text-xl font-semibold text-gray-300 mb-1">Match Standings</h3>
+      <p className="text-xs text-gray-400 mb-3">Game {match.games.length}{goals && `, playing to ${goals}`}</p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 border-b border-gray-600">
+              <th className="text-left py-1 pr-2">Player</th>
+              {match.games.map((_, index) => (
+                <th key={index} className="px-1 text-center">{index + 1}</th>
+              ))}
+              <th className="pl-2 text-right">{chips ? 'Chips' : 'Total'}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {standings.map(({ player, prizes }, rank) => (
+              <tr key={player.id} className={rank === 0 ? 'text-yellow-300 font-semibold' : 'text-gray-200'}>
+                <td className="text-left py-1 pr-2 whitespace-nowrap">
+                  {player.name}{isBusted(player) && <span className="ml-1 text-xs text-red-400">(out)</span>}
+                </td>
+                {prizes.map((prize, index) => (
+                  <td key={index} className="px-1 text-center">{prize > 0 ? prize : '–'}</td>
+                ))}
+                <td className="pl-2 text-right">{chips ? player.chips ?? 0 : player.score}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {chips && match.games.length > 0 && (
+        <div className="mt-4">
+          <ChipLedger match={match} players={standings.map(s => s.player)} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MatchStandings;
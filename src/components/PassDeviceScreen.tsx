@@ -0,0 +1,27 @@
+import React from 'react';
+import { Player } from '../../types';
+
+interface PassDeviceScreenProps {
+  player: Player;
+  onReady: () => void;
+}
+
+// Pass-and-play privacy screen: covers the table until the next human has the device
+const PassDeviceScreen: React.FC<PassDeviceScreenProps> = ({ player, onReady }) => (
+  <div className="fixed inset-0 bg-gray-900 flex items-center justify-center z-[70] p-4">
+    <div className="bg-gray-800 p-8 rounded-xl shadow-2xl border-2 border-cyan-400 w-full max-w-sm text-center">
+      <img src={player.avatar} alt={player.name} className="w-20 h-20 rounded-full border-4 border-cyan-400 mx-auto mb-4" />
+      <h2 className="text-2xl sm:text-3xl font-bold text-cyan-300 mb-2">Pass the device to {player.name}</h2>
+      <p className="text-gray-300 mb-6">Everyone else, look away! Your cards stay hidden until {player.name} is ready.</p>
+      <button
+        onClick={onReady}
+        autoFocus
+        className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-4 text-xl rounded-lg shadow-lg transition-transform duration-200 transform hover:scale-105"
+      >
+        I'm {player.name}, show my cards
+      </button>
+    </div>
+  </div>
+);
+
+export default PassDeviceScreen;
@@ -94,6 +94,9 @@ const PlayerDisplay: React.FC<PlayerDisplayProps> = ({ player, isCurrentPlayer,
           <div className={`${useLandscapeLayout ? 'flex-grow text-left' : 'text-center'}`}>
             <p className="text-white font-bold text-sm sm:text-lg">{player.name}</p>
             <p className="text-amber-200 text-xs sm:text-sm font-semibold">Score: {player.score}</p>
+            {player.chips !== undefined && (
+              <p className="text-emerald-200 text-xs sm:text-sm font-semibold"><i className="fas fa-coins mr-1"></i>{player.chips}</p>
+            )}
             
             {/* Status Badge for Landscape Layout Players */}
             {useLandscapeLayout && (
@@ -0,0 +1,134 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { GameLog, GamePhase } from '../../types';
+import { describeAction, replayGame } from '../engine';
+import CardComponent from './Card';
+
+interface ReplayViewerProps {
+  log: GameLog;
+  onClose: () => void;
+}
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ log, onClose }) => {
+  const { states, error } = useMemo(() => replayGame(log), [log]);
+  const [step, setStep] = useState<number>(0);
+  const lastStep = states.length - 1;
+  const state = states[step];
+
+  const goTo = (target: number) => setStep(Math.max(0, Math.min(lastStep, target)));
+
+  // Arrow keys step through the game, Home/End jump to either end
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') goTo(step - 1);
+      else if (e.key === 'ArrowRight') goTo(step + 1);
+      else if (e.key === 'Home') goTo(0);
+      else if (e.key === 'End') goTo(lastStep);
+      else if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [step, lastStep, onClose]);
+
+  const caption = step === 0 ? 'Before the deal.' : describeAction(states[step - 1], log.actions[step - 1]);
+
+  return (
+    <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-[60] p-4">
+      <div className="bg-gray-800 p-4 sm:p-6 rounded-xl shadow-2xl border-2 border-cyan-400 w-full max-w-sm sm:max-w-lg md:max-w-2xl flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-2xl sm:text-3xl font-bold text-cyan-300">Replay</h2>
+          {log.seed && <span className="text-xs font-mono text-gray-400 select-all">Seed: {log.seed}</span>}
+        </div>
+
+        <div className="mb-3 p-3 bg-black/30 rounded-lg text-left">
+          <p className="text-xs text-gray-400">Step {step} of {lastStep} · {state.gamePhase.replace(/_/g, ' ')}</p>
+          <p className="text-base sm:text-lg font-semibold text-white">{caption}</p>
+          {error && step === lastStep && (
+            <p className="text-sm text-red-400 mt-1">The replay stops here: {error.message}</p>
+          )}
+        </div>
+
+        <div className="overflow-y-auto px-1 space-y-3 flex-1">
+          {state.players.map((player, index) => {
+            const trickPlay = state.currentTrick.find(play => play.playerId === player.id);
+            const isCurrent = index === state.currentPlayerIndex && state.gamePhase !== GamePhase.GAME_OVER;
+            return (
+              <div
+                key={player.id}
+                className={`p-2 rounded-lg border ${isCurrent ? 'border-cyan-400 bg-cyan-500/10' : 'border-gray-700'} ${player.id === state.gameWinnerId ? 'bg-yellow-500/20' : ''}`}
+              >
+                <div className="flex items-center mb-2">
+                  <img src={player.avatar} alt={player.name} className="w-8 h-8 rounded-full border-2 border-gray-400" />
+                  <p className="ml-3 font-semibold flex-1 text-left">
+                    {player.name}
+                    {player.isDealer && <span className="ml-2 text-xs text-amber-300">Dealer</span>}
+                    {player.hasStoodPat && <span className="ml-2 text-xs text-gray-400">Stood pat</span>}
+                  </p>
+                  <span className="text-sm text-gray-300">Score: {player.score}</span>
+                </div>
+                <div className="flex flex-wrap items-center gap-1">
+                  {player.hand.length === 0 && <span className="text-xs text-gray-500">No cards in hand</span>}
+                  {player.hand.map((card, cardIndex) => (
+                    <CardComponent key={cardIndex} card={card} small={true} isPlayable={false} />
+                  ))}
+                  {trickPlay && (
+                    <>
+                      <span className="mx-2 text-xs text-gray-400">played</span>
+                      {trickPlay.cards.map((card, cardIndex) => (
+                        <CardComponent key={`trick-${cardIndex}`} card={card} small={true} isPlayable={false} />
+                      ))}
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-4">
+          <input
+            type="range"
+            min={0}
+            max={lastStep}
+            value={step}
+            onChange={(e) => goTo(Number(e.target.value))}
+            className="w-full mb-3"
+            aria-label="Replay step"
+          />
+          <div className="flex justify-center gap-2">
+            <ReplayButton icon="fa-backward-fast" label="First step" onClick={() => goTo(0)} disabled={step === 0} />
+            <ReplayButton icon="fa-backward-step" label="Previous step" onClick={() => goTo(step - 1)} disabled={step === 0} />
+            <ReplayButton icon="fa-forward-step" label="Next step" onClick={() => goTo(step + 1)} disabled={step === lastStep} />
+            <ReplayButton icon="fa-forward-fast" label="Last step" onClick={() => goTo(lastStep)} disabled={step === lastStep} />
+            <button
+              onClick={onClose}
+              className="ml-4 bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ReplayButtonProps {
+  icon: string;
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+}
+
+const ReplayButton: React.FC<ReplayButtonProps> = ({ icon, label, onClick, disabled }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={label}
+    aria-label={label}
+    className="bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 disabled:cursor-not-allowed text-white py-2 px-4 rounded-lg"
+  >
+    <i className={`fas ${icon}`}></i>
+  </button>
+);
+
+export default ReplayViewer;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { RuleSet, RuleSetId } from '../../types';
+import { RULE_SETS } from '../engine';
+import { deleteSavedRuleSet, loadSavedRuleSets, saveRuleSet } from '../services/ruleSetService';
+
+interface RulesPanelProps {
+  rules: RuleSet;
+  problems: string[]; // Why the rules cannot be played at this table, if they cannot
+  onChange: (rules: RuleSet) => void;
+}
+
+const PRESETS = Object.values(RULE_SETS);
+
+const isPreset = (rules: RuleSet): boolean => rules.id !== RuleSetId.CUSTOM;
+
+// Rules made in the editor have no written description, so one is put together from the rules themselves
+const summarize = (rules: RuleSet): string => [
+  `${rules.faceDownCards} cards down and 1 up`,
+  rules.hasVote ? `a vote of ${rules.minVote} to ${rules.maxVote} cards` : 'no vote',
+  ...(rules.hasVote && rules.oneCardReveal ? ['the 1-card reveal'] : []),
+  rules.allowEqualAndSacrifice ? 'equal and sacrifice allowed' : 'no equal and sacrifice',
+  `${rules.minigameHandSize}-card minigames`,
+].join(', ') + '.';
+
+// Blank number fields are kept as NaN, which the rule checks report, rather than read as 0
+const readNumber = (value: string): number => value === '' ? NaN : Number(value);
+const showNumber = (value: number): number | string => Number.isFinite(value) ? value : '';
+
+// Picks the house rules for the next game: a preset, rules saved on this device, or rules edited here
+const RulesPanel: React.FC<RulesPanelProps> = ({ rules, problems, onChange }) => {
+  const [savedRuleSets, setSavedRuleSets] = useState<RuleSet[]>(() => loadSavedRuleSets());
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [saveName, setSaveName] = useState<string>('');
+  const isSaved = !isPreset(rules) && savedRuleSets.some(r => r.name === rules.name);
+  const trimmedName = saveName.trim();
+  const canSave = trimmedName.length > 0 && problems.length === 0 && !PRESETS.some(r => r.name === trimmedName);
+
+  // Any change turns the rules into custom ones; the hand limit follows the deal
+  const edit = (changes: Partial<RuleSet>) => {
+    const next = { ...rules, ...changes };
+    onChange({
+      ...next,
+      id: RuleSetId.CUSTOM,
+      name: isPreset(rules) ? 'Custom Rules' : rules.name,
+      description: '',
+      handLimit: next.faceDownCards + 1,
+    });
+  };
+
+  const choose = (ruleSet: RuleSet) => {
+    onChange(ruleSet);
+    setSaveName(isPreset(ruleSet) ? '' : ruleSet.name);
+  };
+
+  const save = () => {
+    const saved = { ...rules, id: RuleSetId.CUSTOM, name: trimmedName, description: '' };
+    saveRuleSet(saved);
+    setSavedRuleSets(loadSavedRuleSets());
+    onChange(saved);
+  };
+
+  const remove = () => {
+    deleteSavedRuleSet(rules.name);
+    setSavedRuleSets(loadSavedRuleSets());
+    choose(RULE_SETS[RuleSetId.STANDARD]);
+  };
+
+  const numberField = (label: string, value: number, onValue: (value: number) => void) => (
+    <label className="flex-1 text-sm text-gray-300">
+      {label}
+      <input
+        type="number"
+        min={0}
+        value={showNumber(value)}
+        onChange={(e) => onValue(readNumber(e.target.value))}
+        className="mt-1 w-full bg-gray-700 border-2 border-gray-600 focus:border-cyan-500 rounded-lg px-3 py-2 outline-none"
+      />
+    </label>
+  );
+
+  const toggle = (label: string, checked: boolean, onToggle: (checked: boolean) => void) => (
+    <label className="flex items-center text-sm text-gray-300 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onToggle(e.target.checked)}
+        className="mr-2 w-4 h-4 accent-cyan-500"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-lg font-semibold text-gray-300">Rules</label>
+        <button onClick={() => setIsEditing(!isEditing)} className="text-sm text-cyan-400 hover:text-cyan-300">
+          <i className={`fas ${isEditing ? 'fa-chevron-up' : 'fa-sliders-h'} mr-1`}></i>{isEditing ? 'Done' : 'Edit'}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {[...PRESETS, ...savedRuleSets].map(ruleSet => (
+          <button
+            key={`${ruleSet.id}-${ruleSet.name}`}
+            onClick={() => choose(ruleSet)}
+            className={`flex-1 px-2 py-2 rounded-lg text-sm font-semibold whitespace-nowrap transition-all duration-200 ${
+              rules.id === ruleSet.id && rules.name === ruleSet.name ? 'bg-cyan-500 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+            }`}
+          >
+            {ruleSet.name}
+          </button>
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-400">{rules.description || summarize(rules)}</p>
+
+      {isEditing && (
+        <div className="mt-3 p-3 space-y-3 rounded-lg bg-black/20">
+          <div className="flex space-x-3">
+            {numberField('Cards dealt face down', rules.faceDownCards, faceDownCards => edit({ faceDownCards }))}
+            {numberField('Minigame hand size', rules.minigameHandSize, minigameHandSize => edit({ minigameHandSize }))}
+          </div>
+          {toggle('Vote on a final swap', rules.hasVote, hasVote => edit({ hasVote }))}
+          {rules.hasVote && (
+            <>
+              <div className="flex space-x-3">
+                {numberField('Lowest vote', rules.minVote, minVote => edit({ minVote }))}
+                {numberField('Highest vote', rules.maxVote, maxVote => edit({ maxVote }))}
+              </div>
+              {toggle('1-card reveal: see the new card before keeping it', rules.oneCardReveal, oneCardReveal => edit({ oneCardReveal }))}
+            </>
+          )}
+          {toggle('Equal and sacrifice allowed', rules.allowEqualAndSacrifice, allowEqualAndSacrifice => edit({ allowEqualAndSacrifice }))}
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder="Name these rules"
+              aria-label="Name for these rules"
+              maxLength={24}
+              className="flex-1 min-w-0 bg-gray-700 border-2 border-gray-600 focus:border-cyan-500 rounded-lg px-3 py-2 text-sm outline-none"
+            />
+            <button
+              onClick={save}
+              disabled={!canSave}
+              className="bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-bold px-4 rounded-lg"
+            >
+              Save
+            </button>
+            {isSaved && (
+              <button onClick={remove} className="bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold px-4 rounded-lg">
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {problems.map(problem => <p key={problem} className="mt-1 text-xs text-red-400">{problem}</p>)}
+    </div>
+  );
+};
+
+export default RulesPanel;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { LedgerEntry } from '../../types';
+import { getLedgerBalances, getSettlements, ledgerToCsv, ledgerToJson } from '../engine';
+import { clearLedger, loadLedger } from '../services/sessionLedgerService';
+
+interface SessionLedgerProps {
+  onClose: () => void;
+}
+
+// Saves text as a file through the browser's download
+const download = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Who owes whom after a session: every game's result, each player's balance and the payments that settle up
+const SessionLedger: React.FC<SessionLedgerProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<LedgerEntry[]>(() => loadLedger());
+  const balances = getLedgerBalances(entries);
+  const settlements = getSettlements(balances);
+  const fileName = `gurch-ledger-${new Date().toISOString().slice(0, 10)}`;
+
+  const startNewSession = () => {
+    clearLedger();
+    setEntries([]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[70] p-4">
+      <div className="bg-gray-800 p-6 rounded-xl shadow-2xl border-2 border-cyan-400 w-full max-w-lg flex flex-col max-h-[90vh]">
+        <h2 className="text-3xl font-bold text-cyan-300 mb-4 text-center">Settle Up</h2>
+
+        <div className="overflow-y-auto space-y-4 text-sm">
+          {entries.length === 0 ? (
+            <p className="text-gray-400 text-center">No games recorded this session yet.</p>
+          ) : (
+            <>
+              <div className="p-3 bg-black/30 rounded-lg">
+                <h3 className="font-semibold text-gray-300 mb-2">Payments</h3>
+                {settlements.length === 0 ? (
+                  <p className="text-gray-400">Everyone is square.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {settlements.map((s, i) => (
+                      <li key={i} className="text-gray-200"><b>{s.from}</b> pays <b>{s.to}</b> {s.amount}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="p-3 bg-black/30 rounded-lg">
+                <h3 className="font-semibold text-gray-300 mb-2">Balances</h3>
+                <ul className="space-y-1">
+                  {balances.map(b => (
+                    <li key={b.playerId} className="flex justify-between">
+                      <span className="text-gray-200">{b.player}</span>
+                      <span className={b.amount > 0 ? 'text-green-400' : b.amount < 0 ? 'text-red-400' : 'text-gray-400'}>
+                        {b.amount > 0 ? `+${b.amount}` : b.amount}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="p-3 bg-black/30 rounded-lg">
+                <h3 className="font-semibold text-gray-300 mb-2">Games</h3>
+                <ol className="space-y-1 text-gray-200">
+                  {entries.map((e, i) => (
+                    <li key={i}>
+                      <span className="text-gray-400 mr-2">{i + 1}.</span>{e.winner} won {e.prize} from {e.loser}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mt-4">
+          <button
+            onClick={() => download(`${fileName}.csv`, ledgerToCsv(entries), 'text/csv')}
+            disabled={entries.length === 0}
+            className="bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-2 rounded-lg"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => download(`${fileName}.json`, ledgerToJson(entries), 'application/json')}
+            disabled={entries.length === 0}
+            className="bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-2 rounded-lg"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={startNewSession}
+            disabled={entries.length === 0}
+            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-gray-200 font-bold py-2 rounded-lg"
+          >
+            New Session
+          </button>
+          <button
+            onClick={onClose}
+            className="bg-green-600 hover:bg-green-500 text-white font-bold py-2 rounded-lg"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionLedger;
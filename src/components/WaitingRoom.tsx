@@ -0,0 +1,65 @@
+import React from 'react';
+import { RoomInfo } from '../../types';
+
+interface WaitingRoomProps {
+  room: RoomInfo;
+  playerId: string;
+  onStart: () => void;
+  onLeave: () => void;
+}
+
+const WaitingRoom: React.FC<WaitingRoomProps> = ({ room, playerId, onStart, onLeave }) => {
+  const isHost = room.hostId === playerId;
+  const emptySeats = room.seatCount - room.seats.length;
+
+  return (
+    <div className="flex items-center justify-center h-full">
+      <div className="bg-gray-800 p-8 rounded-xl shadow-2xl border border-gray-700 w-full max-w-md">
+        <h2 className="text-3xl font-bold text-center mb-2 text-cyan-300">Waiting Room</h2>
+        <p className="text-center text-gray-300 mb-2">
+          Share the room code with your friends:
+          <span className="block mt-2 text-4xl font-mono font-bold tracking-widest text-white select-all">{room.code}</span>
+        </p>
+        <p className="text-center text-sm text-gray-400 mb-6">Playing by {room.rules.name}</p>
+
+        <ul className="space-y-2 mb-6">
+          {room.seats.map(seat => (
+            <li key={seat.id} className="flex items-center p-3 rounded-lg bg-gray-700">
+              <i className={`fas ${seat.isBot ? 'fa-robot' : 'fa-user'} w-8 text-center text-cyan-400`}></i>
+              <span className="ml-2 font-semibold flex-1">
+                {seat.name}
+                {seat.id === playerId && <span className="ml-2 text-xs text-gray-400">(you)</span>}
+              </span>
+              {seat.id === room.hostId && <span className="text-xs bg-amber-600 px-2 py-1 rounded">Host</span>}
+            </li>
+          ))}
+          {Array.from({ length: emptySeats }, (_, index) => (
+            <li key={`empty-${index}`} className="flex items-center p-3 rounded-lg border-2 border-dashed border-gray-600 text-gray-400">
+              <i className="fas fa-robot w-8 text-center"></i>
+              <span className="ml-2">Open seat (a bot plays if nobody joins)</span>
+            </li>
+          ))}
+        </ul>
+
+        {isHost ? (
+          <button
+            onClick={onStart}
+            className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-4 text-xl rounded-lg shadow-lg transition-transform duration-200 transform hover:scale-105"
+          >
+            Start Game
+          </button>
+        ) : (
+          <p className="text-center text-gray-300">Waiting for the host to start the game...</p>
+        )}
+        <button
+          onClick={onLeave}
+          className="w-full mt-3 bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 rounded-lg"
+        >
+          Leave Room
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WaitingRoom;
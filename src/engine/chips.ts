@@ -0,0 +1,39 @@
+import { ChipReason, ChipTransfer, GameState, Player } from '../../types';
+
+// Chip games: every player antes into the pot on the main deal, and when the game is decided the
+// winner takes the pot and the loser pays the winner the prize. Nobody pays more than they have.
+// Minigames settle ties before any chips move, so they need nothing extra here.
+
+export const MIN_CHIP_PLAYERS = 3; // Fewer players than this with chips left and the table breaks up
+
+const withTransfers = (state: GameState, transfers: ChipTransfer[]): GameState => ({
+  ...state,
+  players: state.players.map(p => {
+    const received = transfers.filter(t => t.playerId === p.id).reduce((sum, t) => sum + t.amount, 0);
+    return received === 0 ? p : { ...p, chips: (p.chips ?? 0) + received };
+  }),
+  chipLedger: [...(state.chipLedger ?? []), ...transfers],
+});
+
+// Takes each player's ante into the pot
+export const payAntes = (state: GameState): GameState => {
+  if (state.ante === undefined) return state;
+  const antes = state.players.map(p => ({ playerId: p.id, amount: -Math.min(state.ante!, p.chips ?? 0), reason: ChipReason.ANTE }));
+  const pot = (state.pot ?? 0) - antes.reduce((sum, t) => sum + t.amount, 0);
+  return { ...withTransfers(state, antes.filter(t => t.amount < 0)), pot };
+};
+
+// Pays the winner the pot and the loser's prize
+export const settleChips = (state: GameState): GameState => {
+  if (state.ante === undefined || state.gameWinnerId === undefined) return state;
+  const loser = state.players.find(p => p.id === state.gameLoserId);
+  const prize = loser ? Math.min(state.prize ?? 0, loser.chips ?? 0) : 0;
+  const transfers: ChipTransfer[] = [{ playerId: state.gameWinnerId, amount: state.pot ?? 0, reason: ChipReason.POT }];
+  if (loser && prize > 0) {
+    transfers.push({ playerId: loser.id, amount: -prize, reason: ChipReason.PRIZE });
+    transfers.push({ playerId: state.gameWinnerId, amount: prize, reason: ChipReason.PRIZE });
+  }
+  return { ...withTransfers(state, transfers.filter(t => t.amount !== 0)), pot: 0 };
+};
+
+export const hasBustedOut = (player: Player): boolean => player.chips !== undefined && player.chips <= 0;
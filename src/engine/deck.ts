@@ -0,0 +1,48 @@
+import { Card, Rank, Rng, Suit } from '../../types';
+
+export const CARD_VALUES: { [key in Rank]: number } = {
+  [Rank.Two]: 2, [Rank.Three]: 3, [Rank.Four]: 4, [Rank.Five]: 5, [Rank.Six]: 6, [Rank.Seven]: 7,
+  [Rank.Eight]: 8, [Rank.Nine]: 9, [Rank.Ten]: 10, [Rank.Jack]: 11, [Rank.Queen]: 12,
+  [Rank.King]: 13, [Rank.Ace]: 14
+};
+
+export const createDeck = (): Card[] => {
+  const suits = Object.values(Suit);
+  const ranks = Object.values(Rank);
+  const deck: Card[] = [];
+  for (const suit of suits) {
+    for (const rank of ranks) {
+      deck.push({ suit, rank, value: CARD_VALUES[rank] });
+    }
+  }
+  return deck;
+};
+
+export const shuffleDeck = <T,>(array: T[], random: Rng = Math.random): T[] => {
+  let currentIndex = array.length, randomIndex;
+  while (currentIndex !== 0) {
+    randomIndex = Math.floor(random() * currentIndex);
+    currentIndex--;
+    [array[currentIndex], array[randomIndex]] = [array[randomIndex], array[currentIndex]];
+  }
+  return array;
+};
+
+export const isSameCard = (a: Card, b: Card): boolean => a.rank === b.rank && a.suit === b.suit;
+
+export const formatCard = (card: Card): string => `${card.rank}${card.suit}`;
+
+export const formatCards = (cards: Card[]): string => cards.map(formatCard).join(', ');
+
+// Removes the given cards from a hand, returning undefined if any of them is not held
+export const removeCards = (hand: Card[], cards: Card[]): Card[] | undefined => {
+  const remaining = [...hand];
+  for (const card of cards) {
+    const index = remaining.findIndex(c => isSameCard(c, card));
+    if (index === -1) return undefined;
+    remaining.splice(index, 1);
+  }
+  return remaining;
+};
+
+export const sumCards = (cards: Card[]): number => cards.reduce((acc, card) => acc + card.value, 0);
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Card, GameAction, GamePhase, GameState, Player, Rank, Suit } from '../../types';
+import { CARD_VALUES } from './deck';
+import { applyAction, createGame } from './engine';
+import { STANDARD_RULES } from './ruleSets';
+
+const card = (rank: Rank, suit: Suit = Suit.Spades): Card => ({ rank, suit, value: CARD_VALUES[rank] });
+
+const seat = (id: string): Player => ({ id, name: id, avatar: '', isHuman: false, hand: [], playedCards: [], isDealer: false, score: 0 });
+
+const apply = (state: GameState, action: GameAction): GameState => {
+  const result = applyAction(state, action);
+  if (result.ok === false) assert.fail(result.error.message);
+  return result.state;
+};
+
+// Plays one card from each active seat in turn, which ends a deal of one-card hands
+const playLastTrick = (state: GameState): GameState => {
+  let next = state;
+  do {
+    const player = next.players[next.currentPlayerIndex];
+    next = apply(next, { type: 'PLAY_CARDS', playerId: player.id, cards: player.hand });
+  } while (next.gamePhase === GamePhase.GAMEPLAY || next.gamePhase === GamePhase.MINIGAME);
+  return next;
+};
+
+// Deals a minigame of one-card hands in seat order, nobody swaps, and the cards are played out
+const playMinigame = (state: GameState, cards: Card[]): GameState => {
+  let next = apply(state, { type: 'DEAL', deck: [...cards, card(Rank.Ace, Suit.Hearts), card(Rank.Ace, Suit.Clubs)] });
+  while (next.gamePhase === GamePhase.MINIGAME_SWAP) {
+    next = apply(next, { type: 'MINIGAME_SWAP', playerId: next.players[next.currentPlayerIndex].id, wantsToSwap: false });
+  }
+  return playLastTrick(next);
+};
+
+test('a split tie plays off the winner and then the loser among the players who tied for it', () => {
+  const game = createGame(['a', 'b', 'c', 'd'].map(seat), 0, 'TIES', undefined, { ...STANDARD_RULES, minigameHandSize: 1 });
+  const hands = [card(Rank.Two), card(Rank.Two, Suit.Hearts), card(Rank.Ten), card(Rank.Ten, Suit.Hearts)];
+  const lastTrick: GameState = {
+    ...game,
+    players: game.players.map((p, i) => ({ ...p, hand: [hands[i]] })),
+    gamePhase: GamePhase.GAMEPLAY,
+  };
+
+  const winnerTie = playLastTrick(lastTrick);
+  assert.equal(winnerTie.gamePhase, GamePhase.DEALING);
+  assert.equal(winnerTie.minigameTieType, 'WINNER');
+  assert.deepEqual(winnerTie.minigamePlayers, ['a', 'b']);
+  assert.equal(winnerTie.gameLoserId, undefined);
+
+  const loserTie = playMinigame(winnerTie, [card(Rank.Three), card(Rank.Nine)]);
+  assert.equal(loserTie.gameWinnerId, 'a');
+  assert.equal(loserTie.minigameTieType, 'LOSER');
+  assert.deepEqual(loserTie.minigamePlayers, ['c', 'd']);
+
+  const over = playMinigame(loserTie, [card(Rank.Eight), card(Rank.Four)]);
+  assert.equal(over.gamePhase, GamePhase.GAME_OVER);
+  assert.equal(over.gameWinnerId, 'a');
+  assert.equal(over.gameLoserId, 'c');
+  assert.equal(over.players[0].score, 10);
+});
+
+test('when the whole table ties, its minigame settles the winner and the loser together', () => {
+  const game = createGame(['a', 'b', 'c'].map(seat), 0, 'TIES', undefined, { ...STANDARD_RULES, minigameHandSize: 1 });
+  const hands = [card(Rank.Five), card(Rank.Five, Suit.Hearts), card(Rank.Five, Suit.Clubs)];
+  const lastTrick: GameState = {
+    ...game,
+    players: game.players.map((p, i) => ({ ...p, hand: [hands[i]] })),
+    gamePhase: GamePhase.GAMEPLAY,
+  };
+
+  const tie = playLastTrick(lastTrick);
+  assert.deepEqual(tie.minigamePlayers, ['a', 'b', 'c']);
+
+  const over = playMinigame(tie, [card(Rank.Jack), card(Rank.Three), card(Rank.Seven)]);
+  assert.equal(over.gamePhase, GamePhase.GAME_OVER);
+  assert.equal(over.gameWinnerId, 'b');
+  assert.equal(over.gameLoserId, 'a');
+});
@@ -0,0 +1,547 @@
+import { Card, DealRecord, EngineErrorCode, EngineResult, GameAction, GamePhase, GameState, Player, RuleSet } from '../../types';
+import { payAntes, settleChips } from './chips';
+import { formatCard, formatCards, removeCards, shuffleDeck } from './deck';
+import { createRng } from './random';
+import { describeInvalidPlay, determineTrickWinner, enforceHandLimit, getCommanderCards, scoreFinalTrick, tallyVotes, validatePlay } from './rules';
+import { getRules } from './ruleSets';
+
+// The phases in which each action may be applied
+const ACTION_PHASES: { [key in GameAction['type']]: GamePhase[] } = {
+  DEAL: [GamePhase.DEALING],
+  FIRST_SWAP_DECISION: [GamePhase.FIRST_SWAP_DECISION],
+  OTHERS_SWAP_DECISION: [GamePhase.OTHERS_SWAP_DECISION, GamePhase.FIRST_SWAP_OTHERS_DECISION],
+  SWAP_CARDS: [GamePhase.FIRST_SWAP_ACTION, GamePhase.OTHERS_SWAP_ACTION, GamePhase.FINAL_SWAP_ACTION],
+  VOTE_DECISION: [GamePhase.VOTE_SWAP_DECISION],
+  VOTE: [GamePhase.VOTE_SWAP],
+  FINAL_SWAP_DECISION: [GamePhase.FINAL_SWAP_DECISION],
+  SELECT_ONE_CARD_SWAP: [GamePhase.FINAL_SWAP_ONE_CARD_SELECT],
+  ONE_CARD_SWAP_DECISION: [GamePhase.FINAL_SWAP_ONE_CARD_REVEAL_AND_DECIDE],
+  PLAY_CARDS: [GamePhase.GAMEPLAY, GamePhase.MINIGAME],
+  NEXT_ROUND: [GamePhase.ROUND_OVER],
+  MINIGAME_SWAP: [GamePhase.MINIGAME_SWAP],
+};
+
+const fail = (code: EngineErrorCode, message: string): EngineResult => ({ ok: false, error: { code, message } });
+
+const succeed = (state: GameState): EngineResult => ({ ok: true, state });
+
+const updatePlayer = (players: Player[], index: number, changes: Partial<Player>): Player[] =>
+  players.map((p, i) => i === index ? { ...p, ...changes } : p);
+
+// Seat indices in turn order, starting with (and including) `start`
+const seatsFrom = (state: GameState, start: number): number[] =>
+  state.players.map((_, i) => (start + i) % state.players.length);
+
+// During a minigame only the tied players take part
+export const isSeatActive = (state: GameState, index: number): boolean => {
+  const minigamePlayers = state.minigamePlayers ?? [];
+  return minigamePlayers.length === 0 || minigamePlayers.includes(state.players[index].id);
+};
+
+const nextActiveSeat = (state: GameState, index: number): number =>
+  seatsFrom(state, index + 1).find(i => isSeatActive(state, i)) ?? index;
+
+// Pass an ante to play the game for chips; players bring their balances in `chips`. Without a rule set
+// the game is played by the standard rules.
+export const createGame = (players: Player[], dealerIndex: number, seed?: string, ante?: number, rules?: RuleSet): GameState => ({
+  players: players.map((p, index) => ({
+    id: p.id,
+    name: p.name,
+    avatar: p.avatar,
+    isHuman: p.isHuman,
+    hand: [],
+    playedCards: [],
+    isDealer: index === dealerIndex,
+    score: p.score ?? 0,
+    botName: p.botName,
+    botUrl: p.botUrl,
+    botPersonality: p.botPersonality,
+    tendencies: p.tendencies,
+    chips: p.chips,
+  })),
+  deck: [],
+  gamePhase: GamePhase.DEALING,
+  currentPlayerIndex: dealerIndex,
+  commentary: [],
+  roundLeaderIndex: dealerIndex,
+  cardsOnTable: [],
+  firstPlayerToAct: dealerIndex,
+  swapAmount: 0,
+  voteResult: 0,
+  lastPlayedHand: [],
+  currentTrick: [],
+  minigamePlayers: [],
+  seed,
+  ...(ante !== undefined ? { ante, pot: 0, chipLedger: [] } : {}),
+  ...(rules ? { rules } : {}),
+});
+
+const startGameplay = (state: GameState): GameState => ({
+  ...state,
+  players: enforceHandLimit(state.players, getRules(state).handLimit),
+  gamePhase: GamePhase.GAMEPLAY,
+  currentPlayerIndex: state.firstPlayerToAct,
+  roundLeaderIndex: state.firstPlayerToAct,
+  currentTrick: [],
+  lastPlayedHand: [],
+  roundWinnerId: undefined,
+  revealedCard: undefined,
+  cardToSwap: undefined,
+});
+
+const deal = (state: GameState, deck: Card[]): EngineResult => {
+  const newDeck = [...deck];
+  const minigamePlayers = state.minigamePlayers ?? [];
+  const { faceDownCards, minigameHandSize } = getRules(state);
+
+  if (minigamePlayers.length > 0) {
+    if (newDeck.length < minigamePlayers.length * minigameHandSize) {
+      return fail(EngineErrorCode.NOT_ENOUGH_CARDS, 'The deck is too small for the minigame deal.');
+    }
+    const players = state.players.map(p => ({
+      ...p,
+      hand: minigamePlayers.includes(p.id) ? newDeck.splice(0, minigameHandSize) : [],
+      playedCards: [],
+    }));
+    const firstIndex = players.findIndex(p => p.id === minigamePlayers[0]);
+    return succeed({
+      ...state,
+      players,
+      deck: newDeck,
+      discards: [],
+      gamePhase: GamePhase.MINIGAME_SWAP,
+      currentPlayerIndex: firstIndex,
+      roundLeaderIndex: firstIndex,
+    });
+  }
+
+  if (newDeck.length < state.players.length * (faceDownCards + 1)) {
+    return fail(EngineErrorCode.NOT_ENOUGH_CARDS, 'The deck is too small to deal every player in.');
+  }
+
+  // Cards go out one at a time starting left of the dealer: the face-down cards, then one face up
+  const dealerIndex = Math.max(0, state.players.findIndex(p => p.isDealer));
+  const dealOrder = seatsFrom(state, dealerIndex + 1);
+  const hands: Card[][] = state.players.map(() => []);
+  for (let round = 0; round < faceDownCards; round++) {
+    dealOrder.forEach(i => hands[i].push(newDeck.pop()!));
+  }
+  const faceUpCards: Card[] = [];
+  dealOrder.forEach(i => {
+    faceUpCards[i] = newDeck.pop()!;
+  });
+
+  // Highest face-up card starts; on a tie the player who was dealt last wins
+  let starterIndex = dealOrder[0];
+  dealOrder.forEach(i => {
+    if (faceUpCards[i].value >= faceUpCards[starterIndex].value) starterIndex = i;
+  });
+
+  const players = state.players.map((p, i) => ({
+    ...p,
+    hand: [...hands[i], faceUpCards[i]],
+    faceUpCard: faceUpCards[i],
+    playedCards: [],
+  }));
+
+  return succeed(payAntes({
+    ...state,
+    players,
+    deck: newDeck,
+    discards: [],
+    gamePhase: GamePhase.FIRST_SWAP_DECISION,
+    currentPlayerIndex: starterIndex,
+    firstPlayerToAct: starterIndex,
+    roundLeaderIndex: starterIndex,
+    starterPlayerId: players[starterIndex].id,
+    swapAmount: 0,
+    voteResult: 0,
+  }));
+};
+
+// Without a vote, everyone plays the hand they have after the first swap
+const beginVoteDecisions = (state: GameState): GameState => {
+  if (!getRules(state).hasVote) return startGameplay(state);
+  const firstVoter = seatsFrom(state, state.firstPlayerToAct).find(i => !state.players[i].hasStoodPat);
+  if (firstVoter === undefined) return startGameplay(state);
+  return { ...state, gamePhase: GamePhase.VOTE_SWAP_DECISION, currentPlayerIndex: firstVoter };
+};
+
+// Moves round the table to the next player who still has to answer the starter's swap
+const advanceOthersSwap = (state: GameState): GameState => {
+  const nextIndex = seatsFrom(state, state.firstPlayerToAct).find(i => !state.players[i].hasMadeFirstSwapDecision);
+  if (nextIndex === undefined) return beginVoteDecisions(state);
+  return { ...state, gamePhase: GamePhase.OTHERS_SWAP_DECISION, currentPlayerIndex: nextIndex };
+};
+
+// Players who voted and did not drop out take part in the final swap, in seat order from the starter
+const finalSwappers = (state: GameState): number[] =>
+  seatsFrom(state, state.firstPlayerToAct).filter(i => state.players[i].wantsToVote && !state.players[i].hasStoodPat);
+
+const finalSwapPhase = (state: GameState): GamePhase =>
+  state.voteResult === 1 && getRules(state).oneCardReveal ? GamePhase.FINAL_SWAP_ONE_CARD_SELECT : GamePhase.FINAL_SWAP_ACTION;
+
+const beginFinalSwap = (state: GameState): GameState => {
+  const firstSwapper = finalSwappers(state)[0];
+  if (firstSwapper === undefined) return startGameplay(state);
+  return { ...state, gamePhase: finalSwapPhase(state), currentPlayerIndex: firstSwapper };
+};
+
+const advanceFinalSwap = (state: GameState, fromIndex: number): GameState => {
+  const swappers = finalSwappers(state);
+  const nextIndex = swappers[swappers.indexOf(fromIndex) + 1];
+  if (nextIndex === undefined) return startGameplay(state);
+  return { ...state, gamePhase: finalSwapPhase(state), currentPlayerIndex: nextIndex, revealedCard: undefined, cardToSwap: undefined };
+};
+
+const firstSwapDecision = (state: GameState, index: number, wantsToSwap: boolean): EngineResult => {
+  if (!wantsToSwap) {
+    // If the commander stands pat nobody swaps and play starts straight away
+    const players = updatePlayer(state.players, index, { hasMadeFirstSwapDecision: true, hasStoodPat: true });
+    return succeed(startGameplay({ ...state, players, swapAmount: 0 }));
+  }
+  const players = updatePlayer(state.players, index, { hasMadeFirstSwapDecision: true });
+  return succeed({ ...state, players, gamePhase: GamePhase.FIRST_SWAP_ACTION });
+};
+
+const othersSwapDecision = (state: GameState, index: number, wantsToSwap: boolean): EngineResult => {
+  if (!wantsToSwap) {
+    const players = updatePlayer(state.players, index, { hasMadeFirstSwapDecision: true, hasStoodPat: true });
+    return succeed(advanceOthersSwap({ ...state, players }));
+  }
+  return succeed({ ...state, gamePhase: GamePhase.OTHERS_SWAP_ACTION });
+};
+
+// When the deck cannot cover a draw, the cards swapped away this deal are shuffled and put under it, as at a
+// real table. Undefined if even that is not enough.
+const refillDeck = (state: GameState, count: number): { deck: Card[]; discards: Card[] } | undefined => {
+  const discards = state.discards ?? [];
+  if (state.deck.length >= count) return { deck: [...state.deck], discards };
+  if (state.deck.length + discards.length < count) return undefined;
+  const reshuffled = shuffleDeck([...discards], createRng(`${state.seed}:discards:${formatCards(discards)}`));
+  return { deck: [...reshuffled, ...state.deck], discards: [] };
+};
+
+const swapCards = (state: GameState, index: number, cards: Card[]): EngineResult => {
+  const player = state.players[index];
+  const remaining = removeCards(player.hand, cards);
+  if (!remaining) {
+    return fail(EngineErrorCode.CARDS_NOT_IN_HAND, `${player.name} does not hold all of those cards.`);
+  }
+
+  const isFirstSwap = state.gamePhase === GamePhase.FIRST_SWAP_ACTION;
+  const requiredCount = state.gamePhase === GamePhase.FINAL_SWAP_ACTION ? state.voteResult : state.swapAmount;
+  if (isFirstSwap ? cards.length === 0 : cards.length !== requiredCount) {
+    const expected = isFirstSwap ? 'at least 1 card' : `exactly ${requiredCount} card(s)`;
+    return fail(EngineErrorCode.INVALID_SWAP, `${player.name} must swap ${expected}.`);
+  }
+  const refilled = refillDeck(state, cards.length);
+  if (!refilled) {
+    return fail(EngineErrorCode.NOT_ENOUGH_CARDS, 'There are not enough cards left in the deck to swap.');
+  }
+
+  const { deck } = refilled;
+  const hand = [...remaining];
+  cards.forEach(() => hand.push(deck.pop()!));
+  const players = updatePlayer(state.players, index, { hand, hasMadeFirstSwapDecision: true });
+  const next = { ...state, players, deck, discards: [...refilled.discards, ...cards] };
+
+  switch (state.gamePhase) {
+    case GamePhase.FIRST_SWAP_ACTION:
+      return succeed(advanceOthersSwap({ ...next, swapAmount: cards.length }));
+    case GamePhase.OTHERS_SWAP_ACTION:
+      return succeed(advanceOthersSwap(next));
+    default:
+      return succeed(advanceFinalSwap(next, index));
+  }
+};
+
+const voteDecision = (state: GameState, index: number, wantsToVote: boolean): EngineResult => {
+  const players = updatePlayer(state.players, index, { wantsToVote });
+  const next = { ...state, players };
+
+  const nextDecider = seatsFrom(next, next.firstPlayerToAct)
+    .find(i => !players[i].hasStoodPat && players[i].wantsToVote === undefined);
+  if (nextDecider !== undefined) {
+    return succeed({ ...next, currentPlayerIndex: nextDecider });
+  }
+
+  const firstVoter = seatsFrom(next, next.firstPlayerToAct).find(i => !players[i].hasStoodPat && players[i].wantsToVote);
+  if (firstVoter === undefined) return succeed(startGameplay(next));
+  return succeed({ ...next, gamePhase: GamePhase.VOTE_SWAP, currentPlayerIndex: firstVoter });
+};
+
+// Players who voted for the winning amount are in automatically; the rest choose whether to join
+const resolveVote = (state: GameState): GameState => {
+  const voters = seatsFrom(state, state.firstPlayerToAct).filter(i => state.players[i].wantsToVote && !state.players[i].hasStoodPat);
+  const voteResult = tallyVotes(voters.map(i => state.players[i].swapVote!), getRules(state));
+  const players = state.players.map((p, i) =>
+    voters.includes(i) && p.swapVote === voteResult ? { ...p, hasMadeFinalSwapDecision: true } : p
+  );
+  const next = { ...state, players, voteResult };
+  // A winning vote to swap nothing calls the final swap off
+  if (voteResult === 0) return startGameplay(next);
+
+  const firstDecider = voters.find(i => players[i].swapVote !== voteResult);
+  if (firstDecider === undefined) return beginFinalSwap(next);
+  return { ...next, gamePhase: GamePhase.FINAL_SWAP_DECISION, currentPlayerIndex: firstDecider };
+};
+
+const vote = (state: GameState, index: number, amount: number): EngineResult => {
+  const { minVote, maxVote } = getRules(state);
+  if (!Number.isInteger(amount) || amount < minVote || amount > maxVote) {
+    return fail(EngineErrorCode.INVALID_VOTE, `Votes must be between ${minVote} and ${maxVote}.`);
+  }
+  const players = updatePlayer(state.players, index, { swapVote: amount, hasVoted: true });
+  const next = { ...state, players };
+
+  const nextVoter = seatsFrom(next, next.firstPlayerToAct)
+    .find(i => players[i].wantsToVote && !players[i].hasStoodPat && !players[i].hasVoted);
+  if (nextVoter !== undefined) {
+    return succeed({ ...next, currentPlayerIndex: nextVoter });
+  }
+  return succeed(resolveVote(next));
+};
+
+const finalSwapDecision = (state: GameState, index: number, participate: boolean): EngineResult => {
+  const players = updatePlayer(state.players, index, { hasMadeFinalSwapDecision: true, ...(participate ? {} : { hasStoodPat: true }) });
+  const next = { ...state, players };
+
+  const nextDecider = seatsFrom(next, next.firstPlayerToAct)
+    .find(i => players[i].wantsToVote && !players[i].hasStoodPat && !players[i].hasMadeFinalSwapDecision);
+  if (nextDecider !== undefined) {
+    return succeed({ ...next, currentPlayerIndex: nextDecider });
+  }
+  return succeed(beginFinalSwap(next));
+};
+
+const selectOneCardSwap = (state: GameState, index: number, card: Card): EngineResult => {
+  const player = state.players[index];
+  if (!removeCards(player.hand, [card])) {
+    return fail(EngineErrorCode.CARDS_NOT_IN_HAND, `${player.name} does not hold ${formatCard(card)}.`);
+  }
+  // One card is revealed, and a second may be needed if it is declined
+  const refilled = refillDeck(state, 2);
+  if (!refilled) {
+    return fail(EngineErrorCode.NOT_ENOUGH_CARDS, 'There are not enough cards left in the deck to swap.');
+  }
+  const { deck, discards } = refilled;
+  const revealedCard = deck.pop()!;
+  return succeed({
+    ...state,
+    deck,
+    discards,
+    gamePhase: GamePhase.FINAL_SWAP_ONE_CARD_REVEAL_AND_DECIDE,
+    cardToSwap: card,
+    revealedCard,
+  });
+};
+
+const oneCardSwapDecision = (state: GameState, index: number, keep: boolean): EngineResult => {
+  const player = state.players[index];
+  const remaining = state.cardToSwap && state.revealedCard ? removeCards(player.hand, [state.cardToSwap]) : undefined;
+  if (!remaining) {
+    return fail(EngineErrorCode.WRONG_PHASE, 'No card has been selected for the 1-card swap.');
+  }
+  const deck = [...state.deck];
+  const hand = [...remaining, keep ? state.revealedCard! : deck.pop()!];
+  const players = updatePlayer(state.players, index, { hand });
+  const discards = [...(state.discards ?? []), state.cardToSwap!, ...(keep ? [] : [state.revealedCard!])];
+  return succeed(advanceFinalSwap({ ...state, players, deck, discards }, index));
+};
+
+const startMinigame = (state: GameState, playerIds: string[], tieType: 'WINNER' | 'LOSER'): GameState => ({
+  ...state,
+  players: state.players.map(p => ({ ...p, hand: [], playedCards: [] })),
+  gamePhase: GamePhase.DEALING,
+  currentPlayerIndex: state.players.findIndex(p => p.id === playerIds[0]),
+  currentTrick: [],
+  lastPlayedHand: [],
+  roundWinnerId: undefined,
+  minigamePlayers: playerIds,
+  minigameTieType: tieType,
+});
+
+const endGame = (state: GameState): GameState => settleChips({
+  ...state,
+  players: state.players.map(p => p.id === state.gameWinnerId ? { ...p, score: p.score + (state.prize ?? 0) } : p),
+  gamePhase: GamePhase.GAME_OVER,
+  minigamePlayers: [],
+  minigameTieType: undefined,
+  minigameLoserTie: undefined,
+});
+
+// Settles the loser outright, or leaves the tied players to play it off after the winner's minigame
+const withLoserTie = (state: GameState, tiedLosers: string[]): GameState =>
+  tiedLosers.length === 1 ? { ...state, gameLoserId: tiedLosers[0] } : { ...state, minigameLoserTie: tiedLosers };
+
+// The lowest final play wins and is paid the value of the highest final play. Ties go to a minigame: the
+// winner's first, then the loser's among the players who tied for the loss.
+const finishGame = (state: GameState): GameState => {
+  const scores = scoreFinalTrick(state.currentTrick);
+  const playerIds = Object.keys(scores);
+  const minScore = Math.min(...Object.values(scores));
+  const maxScore = Math.max(...Object.values(scores));
+  const tiedWinners = playerIds.filter(id => scores[id] === minScore);
+  const tiedLosers = playerIds.filter(id => scores[id] === maxScore);
+
+  if (state.minigameTieType === 'WINNER') {
+    // If the whole table tied, its minigame settles the loser as well
+    const isWholeTable = (state.minigamePlayers ?? []).length === state.players.length;
+    const next = isWholeTable && minScore !== maxScore ? withLoserTie(state, tiedLosers) : state;
+    if (tiedWinners.length > 1) return startMinigame(next, tiedWinners, 'WINNER');
+    const settled = { ...next, gameWinnerId: tiedWinners[0] };
+    if (settled.gameLoserId !== undefined) return endGame(settled);
+    return startMinigame({ ...settled, minigameLoserTie: undefined }, settled.minigameLoserTie ?? tiedLosers, 'LOSER');
+  }
+
+  if (state.minigameTieType === 'LOSER') {
+    if (tiedLosers.length > 1) return startMinigame(state, tiedLosers, 'LOSER');
+    return endGame({ ...state, gameLoserId: tiedLosers[0] });
+  }
+
+  const withPrize = { ...state, prize: maxScore };
+  if (tiedWinners.length > 1) {
+    const next = minScore === maxScore ? withPrize : withLoserTie(withPrize, tiedLosers);
+    return startMinigame(next, tiedWinners, 'WINNER');
+  }
+  if (tiedLosers.length > 1) {
+    return startMinigame({ ...withPrize, gameWinnerId: tiedWinners[0] }, tiedLosers, 'LOSER');
+  }
+  return endGame({ ...withPrize, gameWinnerId: tiedWinners[0], gameLoserId: tiedLosers[0] });
+};
+
+const playCards = (state: GameState, index: number, cards: Card[]): EngineResult => {
+  const player = state.players[index];
+  const remaining = removeCards(player.hand, cards);
+  if (!remaining) {
+    return fail(EngineErrorCode.CARDS_NOT_IN_HAND, `${player.name} does not hold all of those cards.`);
+  }
+  const leadHand = getCommanderCards(state);
+  const validation = validatePlay(player.hand, leadHand, cards, getRules(state));
+  if (!validation.valid) {
+    return { ok: false, error: { code: EngineErrorCode.INVALID_PLAY, message: describeInvalidPlay(validation, leadHand), invalidPlay: validation } };
+  }
+
+  const players = updatePlayer(state.players, index, { hand: remaining, playedCards: [...player.playedCards, ...cards] });
+  const currentTrick = [...state.currentTrick, { playerId: player.id, cards }];
+  const roundWinnerId = determineTrickWinner(currentTrick, state.players[state.roundLeaderIndex].id);
+  const lastPlayedHand = currentTrick.find(p => p.playerId === roundWinnerId)!.cards;
+  const next = { ...state, players, currentTrick, roundWinnerId, lastPlayedHand };
+
+  const nextIndex = nextActiveSeat(state, index);
+  if (nextIndex !== state.roundLeaderIndex) {
+    return succeed({ ...next, currentPlayerIndex: nextIndex });
+  }
+
+  // Every hand shrinks by the same amount each trick, so once anyone is out the game is over
+  const isGameOver = players.some((p, i) => isSeatActive(next, i) && p.hand.length === 0);
+  if (isGameOver) return succeed(finishGame(next));
+  return succeed({ ...next, gamePhase: GamePhase.ROUND_OVER });
+};
+
+const nextRound = (state: GameState): EngineResult => {
+  const winnerIndex = state.players.findIndex(p => p.id === state.roundWinnerId);
+  const leaderIndex = winnerIndex !== -1 ? winnerIndex : state.roundLeaderIndex;
+  const isMinigame = (state.minigamePlayers ?? []).length > 0;
+  return succeed({
+    ...state,
+    players: state.players.map(p => ({ ...p, playedCards: [] })),
+    gamePhase: isMinigame ? GamePhase.MINIGAME : GamePhase.GAMEPLAY,
+    currentPlayerIndex: leaderIndex,
+    roundLeaderIndex: leaderIndex,
+    cardsOnTable: [],
+    lastPlayedHand: [],
+    currentTrick: [],
+    lastRoundWinnerId: state.roundWinnerId,
+    roundWinnerId: undefined,
+  });
+};
+
+const minigameSwap = (state: GameState, index: number, wantsToSwap: boolean): EngineResult => {
+  let deck = state.deck;
+  let discards = state.discards;
+  let players = state.players;
+  const { minigameHandSize } = getRules(state);
+  if (wantsToSwap) {
+    const refilled = refillDeck(state, minigameHandSize);
+    if (!refilled) {
+      return fail(EngineErrorCode.NOT_ENOUGH_CARDS, 'There are not enough cards left in the deck to swap.');
+    }
+    deck = refilled.deck;
+    discards = [...refilled.discards, ...state.players[index].hand];
+    players = updatePlayer(players, index, { hand: deck.splice(0, minigameHandSize) });
+  }
+
+  const minigamePlayers = state.minigamePlayers ?? [];
+  const nextId = minigamePlayers[minigamePlayers.indexOf(state.players[index].id) + 1];
+  const next = { ...state, players, deck, discards };
+  if (nextId === undefined) {
+    return succeed({ ...next, gamePhase: GamePhase.MINIGAME, currentPlayerIndex: state.roundLeaderIndex });
+  }
+  return succeed({ ...next, currentPlayerIndex: players.findIndex(p => p.id === nextId) });
+};
+
+const runAction = (state: GameState, index: number, action: GameAction): EngineResult => {
+  switch (action.type) {
+    case 'DEAL': return deal(state, action.deck);
+    case 'FIRST_SWAP_DECISION': return firstSwapDecision(state, index, action.wantsToSwap);
+    case 'OTHERS_SWAP_DECISION': return othersSwapDecision(state, index, action.wantsToSwap);
+    case 'SWAP_CARDS': return swapCards(state, index, action.cards);
+    case 'VOTE_DECISION': return voteDecision(state, index, action.wantsToVote);
+    case 'VOTE': return vote(state, index, action.amount);
+    case 'FINAL_SWAP_DECISION': return finalSwapDecision(state, index, action.participate);
+    case 'SELECT_ONE_CARD_SWAP': return selectOneCardSwap(state, index, action.card);
+    case 'ONE_CARD_SWAP_DECISION': return oneCardSwapDecision(state, index, action.keep);
+    case 'PLAY_CARDS': return playCards(state, index, action.cards);
+    case 'NEXT_ROUND': return nextRound(state);
+    case 'MINIGAME_SWAP': return minigameSwap(state, index, action.wantsToSwap);
+  }
+};
+
+const emptyDealRecord = (): DealRecord => ({ playedCards: [], swapCounts: {}, stoodPat: [], votes: {}, revealedCards: [] });
+
+// Adds what an accepted action showed the table to the deal's record
+const updateDealRecord = (state: GameState, action: GameAction): DealRecord => {
+  const record = state.dealRecord ?? emptyDealRecord();
+  const standPat = (playerId: string) => ({ ...record, stoodPat: [...record.stoodPat, playerId] });
+  const addSwaps = (playerId: string, count: number) =>
+    ({ ...record, swapCounts: { ...record.swapCounts, [playerId]: (record.swapCounts[playerId] ?? 0) + count } });
+
+  switch (action.type) {
+    case 'DEAL': return emptyDealRecord();
+    case 'FIRST_SWAP_DECISION':
+    case 'OTHERS_SWAP_DECISION':
+      return action.wantsToSwap ? record : standPat(action.playerId);
+    case 'FINAL_SWAP_DECISION': return action.participate ? record : standPat(action.playerId);
+    case 'SWAP_CARDS': return addSwaps(action.playerId, action.cards.length);
+    case 'SELECT_ONE_CARD_SWAP': return addSwaps(action.playerId, 1);
+    case 'ONE_CARD_SWAP_DECISION':
+      return { ...record, revealedCards: [...record.revealedCards, { playerId: action.playerId, card: state.revealedCard!, kept: action.keep }] };
+    case 'VOTE': return { ...record, votes: { ...record.votes, [action.playerId]: action.amount } };
+    case 'PLAY_CARDS': return { ...record, playedCards: [...record.playedCards, ...action.cards] };
+    default: return record;
+  }
+};
+
+// Applies one action to the game, returning the next state or the reason the action was rejected.
+// The input state is never mutated.
+export const applyAction = (state: GameState, action: GameAction): EngineResult => {
+  if (!ACTION_PHASES[action.type].includes(state.gamePhase)) {
+    return fail(EngineErrorCode.WRONG_PHASE, `${action.type} is not allowed during ${state.gamePhase}.`);
+  }
+
+  let index = state.currentPlayerIndex;
+  if ('playerId' in action) {
+    index = state.players.findIndex(p => p.id === action.playerId);
+    if (index === -1) {
+      return fail(EngineErrorCode.UNKNOWN_PLAYER, `There is no player with id ${action.playerId}.`);
+    }
+    if (index !== state.currentPlayerIndex) {
+      return fail(EngineErrorCode.NOT_YOUR_TURN, `It is not ${state.players[index].name}'s turn.`);
+    }
+  }
+
+  const result = runAction(state, index, action);
+  return result.ok ? succeed({ ...result.state, dealRecord: updateDealRecord(state, action) }) : result;
+};
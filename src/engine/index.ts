@@ -0,0 +1,12 @@
+// The Gurch rules engine: pure functions over GameState with no React, timers or logging.
+// Bots, replays and servers should go through applyAction so they follow the same rules as the UI.
+export * from './deck';
+export * from './random';
+export * from './rules';
+export * from './ruleSets';
+export * from './engine';
+export * from './replay';
+export * from './match';
+export * from './chips';
+export * from './ledger';
+export * from './redact';
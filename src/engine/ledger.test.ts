@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LedgerBalance, LedgerSettlement } from '../../types';
+import { getLedgerBalances, getSettlements } from './ledger';
+
+const balances = (amounts: { [player: string]: number }): LedgerBalance[] =>
+  Object.entries(amounts).map(([player, amount]) => ({ playerId: player, player, amount }));
+
+// What each player ends up with once the payments are made
+const afterPaying = (start: LedgerBalance[], settlements: LedgerSettlement[]): { [player: string]: number } => {
+  const net = Object.fromEntries(start.map(b => [b.player, b.amount]));
+  settlements.forEach(s => {
+    net[s.from] += s.amount;
+    net[s.to] -= s.amount;
+  });
+  return net;
+};
+
+test('settles up in the fewest payments where paying the biggest debts first would take more', () => {
+  // Biggest first has Cat pay Ann 3 and Dan pay Ben 2, which leaves Eve paying both of them: four payments.
+  // Cat owes Ben exactly what he is owed, and Dan and Eve owe Ann exactly what she is owed: three.
+  const start = balances({ Ann: 4, Ben: 3, Cat: -3, Dan: -2, Eve: -2 });
+  const settlements = getSettlements(start);
+
+  assert.equal(settlements.length, 3);
+  assert.ok(Object.values(afterPaying(start, settlements)).every(amount => amount === 0));
+});
+
+test('players who are square make no payments', () => {
+  assert.deepEqual(getSettlements(balances({ Ann: 0, Ben: 0 })), []);
+  assert.deepEqual(getSettlements(balances({ Ann: 5, Ben: 0, Cat: -5 })), [{ from: 'Cat', to: 'Ann', amount: 5 }]);
+});
+
+test('balances that do not add up still settle as far as they go', () => {
+  assert.deepEqual(getSettlements(balances({ Ann: 5, Ben: -3 })), [{ from: 'Ben', to: 'Ann', amount: 3 }]);
+  const settlements = getSettlements(balances({ Ann: 4, Ben: 3, Cat: -3, Dan: -2, Eve: -1 }));
+  assert.ok(settlements.length > 0 && settlements.every(s => s.amount > 0));
+});
+
+test('players with the same name in different seats keep their own balances', () => {
+  const entry = { playedAt: 0, winner: 'Fox', loser: 'You', prize: 2 };
+  const result = getLedgerBalances([
+    { ...entry, winnerId: 'player2', loserId: 'player1' },
+    { ...entry, winnerId: 'player3', loserId: 'player1' },
+  ]);
+  assert.deepEqual(result.map(b => [b.playerId, b.amount]), [['player2', 2], ['player3', 2], ['player1', -4]]);
+});
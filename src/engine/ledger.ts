@@ -0,0 +1,125 @@
+import { GameState, LedgerBalance, LedgerEntry, LedgerSettlement } from '../../types';
+
+// Settling up after a session played for stakes: the loser of each game owes the winner the prize.
+// Players are kept apart by id, so two seats with the same name are not merged, and shown by name, since
+// that is who pays whom at the end of the evening.
+
+// The ledger line for a finished game, or undefined if the game has not been decided
+export const createLedgerEntry = (state: GameState, playedAt: number): LedgerEntry | undefined => {
+  const winner = state.players.find(p => p.id === state.gameWinnerId);
+  const loser = state.players.find(p => p.id === state.gameLoserId);
+  if (!winner || !loser) return undefined;
+  return { playedAt, seed: state.seed, winner: winner.name, loser: loser.name, winnerId: winner.id, loserId: loser.id, prize: state.prize ?? 0 };
+};
+
+// What each player is up or down over the session, biggest winner first
+export const getLedgerBalances = (entries: LedgerEntry[]): LedgerBalance[] => {
+  const balances = new Map<string, LedgerBalance>();
+  const add = (playerId: string, player: string, amount: number) => {
+    balances.set(playerId, { playerId, player, amount: (balances.get(playerId)?.amount ?? 0) + amount });
+  };
+  entries.forEach(entry => {
+    add(entry.winnerId ?? entry.winner, entry.winner, entry.prize);
+    add(entry.loserId ?? entry.loser, entry.loser, -entry.prize);
+  });
+  return [...balances.values()].sort((a, b) => b.amount - a.amount);
+};
+
+const MAX_EXACT_PLAYERS = 12; // Beyond this many players owing or owed, finding the fewest payments takes too long
+
+// Payments that settle a group of balances that sum to zero: the biggest debtor pays the biggest creditor until
+// one of them is square. Every payment squares at least one player and the last squares two, so a group of n
+// takes at most n - 1 payments.
+const settleGreedily = (balances: LedgerBalance[]): LedgerSettlement[] => {
+  const creditors = balances.filter(b => b.amount > 0).map(b => ({ ...b }));
+  const debtors = balances.filter(b => b.amount < 0).map(b => ({ ...b, amount: -b.amount }));
+  const settlements: LedgerSettlement[] = [];
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.amount - a.amount);
+    debtors.sort((a, b) => b.amount - a.amount);
+    const [creditor, debtor] = [creditors[0], debtors[0]];
+    const amount = Math.min(creditor.amount, debtor.amount);
+    settlements.push({ from: debtor.player, to: creditor.player, amount });
+    creditor.amount -= amount;
+    debtor.amount -= amount;
+    if (creditor.amount === 0) creditors.shift();
+    if (debtor.amount === 0) debtors.shift();
+  }
+  return settlements;
+};
+
+// The balances split into as many groups summing to zero as they will go. Groups are sets of players, as bit
+// masks over `balances`; every split is tried, which is quick at the size of a card table.
+const splitIntoSquareGroups = (balances: LedgerBalance[]): LedgerBalance[][] => {
+  const everyone = (1 << balances.length) - 1;
+  const sums: number[] = [0];
+  for (let mask = 1; mask <= everyone; mask++) {
+    const lowest = mask & -mask;
+    sums[mask] = sums[mask ^ lowest] + balances[31 - Math.clz32(lowest)].amount;
+  }
+
+  // For each set of players summing to zero: the most groups it splits into, and the group holding its
+  // lowest player in that split
+  const groupCounts: number[] = [0];
+  const firstGroups: number[] = [0];
+  for (let mask = 1; mask <= everyone; mask++) {
+    groupCounts[mask] = -1;
+    if (sums[mask] !== 0) continue;
+    const lowest = mask & -mask;
+    const others = mask ^ lowest;
+    for (let subset = others; ; subset = (subset - 1) & others) {
+      const group = subset | lowest;
+      const rest = groupCounts[mask ^ group];
+      if (sums[group] === 0 && rest >= 0 && rest + 1 > groupCounts[mask]) {
+        groupCounts[mask] = rest + 1;
+        firstGroups[mask] = group;
+      }
+      if (subset === 0) break;
+    }
+  }
+
+  // Balances that do not sum to zero have no split; what is left over is settled as one group
+  const groups: LedgerBalance[][] = [];
+  let mask = everyone;
+  for (; mask !== 0 && firstGroups[mask] !== undefined; mask ^= firstGroups[mask]) {
+    groups.push(balances.filter((_, i) => firstGroups[mask] & (1 << i)));
+  }
+  if (mask !== 0) groups.push(balances.filter((_, i) => mask & (1 << i)));
+  return groups;
+};
+
+// The fewest payments that settle every balance. A group of n players whose balances sum to zero settles in
+// n - 1 payments, so the players are split into as many such groups as possible and each is settled on its
+// own. With more players than that search allows, it settles everyone as one group, which still takes at most
+// one fewer payment than there are players. So does a ledger that does not add up (edited by hand or only
+// partly saved): the payments then settle as much as they can.
+export const getSettlements = (balances: LedgerBalance[]): LedgerSettlement[] => {
+  const unsettled = balances.filter(b => b.amount !== 0);
+  const total = unsettled.reduce((sum, b) => sum + b.amount, 0);
+  if (unsettled.length > MAX_EXACT_PLAYERS || total !== 0) return settleGreedily(unsettled);
+  return splitIntoSquareGroups(unsettled).flatMap(settleGreedily);
+};
+
+// Quotes a CSV field if it needs it
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One CSV for the whole session. Every row reads "from pays to amount": games (the loser owes the winner),
+// then each player's balance, then the settling payments.
+export const ledgerToCsv = (entries: LedgerEntry[]): string => {
+  const balances = getLedgerBalances(entries);
+  const rows: (string | number)[][] = [
+    ['section', 'game', 'played_at', 'seed', 'from', 'to', 'amount'],
+    ...entries.map((e, i) => ['game', i + 1, new Date(e.playedAt).toISOString(), e.seed ?? '', e.loser, e.winner, e.prize]),
+    ...balances.map(b => ['balance', '', '', '', '', b.player, b.amount]),
+    ...getSettlements(balances).map(s => ['settlement', '', '', '', s.from, s.to, s.amount]),
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+};
+
+export const ledgerToJson = (entries: LedgerEntry[]): string => {
+  const balances = getLedgerBalances(entries);
+  return JSON.stringify({ games: entries, balances, settlements: getSettlements(balances) }, null, 2);
+};
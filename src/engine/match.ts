@@ -0,0 +1,51 @@
+import { GameState, Match, MatchSettings, MatchStanding, Player } from '../../types';
+import { MIN_CHIP_PLAYERS, hasBustedOut } from './chips';
+
+export const createMatch = (settings: MatchSettings, seed: string, firstDealerIndex: number): Match =>
+  ({ settings, seed, firstDealerIndex, games: [] });
+
+// The seed the next game of the match is dealt from; the first game uses the match's own seed
+export const getMatchGameSeed = (match: Match): string =>
+  match.games.length === 0 ? match.seed : `${match.seed}-${match.games.length + 1}`;
+
+// The dealer rotates one seat each game
+export const getMatchDealerIndex = (match: Match, playerCount: number): number =>
+  (match.firstDealerIndex + match.games.length) % playerCount;
+
+// Adds a finished game to the match. In a chip match, players left without chips are out from here on.
+export const recordMatchGame = (match: Match, state: GameState): Match => {
+  const bustedIds = new Set((match.busted ?? []).map(p => p.id));
+  return {
+    ...match,
+    games: [...match.games, {
+      seed: state.seed ?? '',
+      winnerId: state.gameWinnerId,
+      loserId: state.gameLoserId,
+      prize: state.prize ?? 0,
+      chipTransfers: state.chipLedger,
+    }],
+    busted: [...(match.busted ?? []), ...state.players.filter(p => hasBustedOut(p) && !bustedIds.has(p.id))],
+  };
+};
+
+// The players who take part in the match's next game
+export const getMatchPlayers = (match: Match, players: Player[]): Player[] =>
+  players.filter(p => !(match.busted ?? []).some(b => b.id === p.id));
+
+// Scores carry over from game to game, so the players' scores are the match totals
+export const isMatchOver = (match: Match, players: Player[]): boolean => {
+  const { targetScore, dealLimit, chips } = match.settings;
+  if (targetScore !== undefined && players.some(p => p.score >= targetScore)) return true;
+  if (chips && getMatchPlayers(match, players).length < MIN_CHIP_PLAYERS) return true;
+  return dealLimit !== undefined && match.games.length >= dealLimit;
+};
+
+// Everyone who played in the match, best first (by chips in a chip match, otherwise by score), with what
+// each won game by game
+export const getMatchStandings = (match: Match, players: Player[]): MatchStanding[] => {
+  const everyone = [...getMatchPlayers(match, players), ...(match.busted ?? [])];
+  const total = (p: Player) => match.settings.chips ? p.chips ?? 0 : p.score;
+  return everyone
+    .sort((a, b) => total(b) - total(a))
+    .map(player => ({ player, prizes: match.games.map(game => game.winnerId === player.id ? game.prize : 0) }));
+};
@@ -0,0 +1,28 @@
+import { Rng } from '../../types';
+
+// Hashes a seed string into a 32-bit starting state (FNV-1a)
+const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: tiny and fast, and plenty for shuffling cards. The same seed always gives the same sequence.
+export const createRng = (seed: string): Rng => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Short, easy-to-share seeds for games started without one
+export const generateSeed = (): string => Math.random().toString(36).slice(2, 8).toUpperCase();
+
+// Seeds are typed in by players, so ignore surrounding whitespace and letter case
+export const normalizeSeed = (seed: string): string => seed.trim().toUpperCase();
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Card, GamePhase, GameState, Player, Rank, Suit } from '../../types';
+import { CARD_VALUES } from './deck';
+import { createGame } from './engine';
+import { HIDDEN_CARD, redactAction, redactState } from './redact';
+
+const card = (rank: Rank, suit: Suit = Suit.Spades): Card => ({ rank, suit, value: CARD_VALUES[rank] });
+
+const seat = (id: string): Player => ({ id, name: id, avatar: '', isHuman: false, hand: [], playedCards: [], score: 0 });
+
+test('the card offered in the 1-card swap is only seen by the player offering it', () => {
+  const offered = card(Rank.Nine);
+  const revealed = card(Rank.Three, Suit.Hearts);
+  const game = createGame(['a', 'b', 'c'].map(seat), 0);
+  const state: GameState = {
+    ...game,
+    players: game.players.map((p, i) => ({ ...p, hand: i === 0 ? [offered, card(Rank.Four)] : [card(Rank.Ace, Suit.Clubs), card(Rank.Five, Suit.Clubs)] })),
+    gamePhase: GamePhase.FINAL_SWAP_ONE_CARD_REVEAL_AND_DECIDE,
+    currentPlayerIndex: 0,
+    cardToSwap: offered,
+    revealedCard: revealed,
+  };
+
+  assert.deepEqual(redactState(state, 'a').cardToSwap, offered);
+  assert.deepEqual(redactState(state, 'b').cardToSwap, HIDDEN_CARD);
+  // The revealed card is turned up for the whole table
+  assert.deepEqual(redactState(state, 'b').revealedCard, revealed);
+
+  const select = { type: 'SELECT_ONE_CARD_SWAP' as const, playerId: 'a', card: offered };
+  assert.deepEqual(redactAction(select, 'a'), select);
+  assert.deepEqual(redactAction(select, 'b'), { ...select, card: HIDDEN_CARD });
+});
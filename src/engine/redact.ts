@@ -0,0 +1,38 @@
+import { Card, GameAction, GamePhase, GameState, Rank, Suit } from '../../types';
+
+// Stand-in for a card the viewer may not see. Hidden hands keep their length so seats still show card backs.
+export const HIDDEN_CARD: Card = { suit: Suit.Spades, rank: Rank.Two, value: 0 };
+
+export const isHiddenCard = (card: Card): boolean => card.value === HIDDEN_CARD.value;
+
+const hideCards = (cards: Card[]): Card[] => cards.map(() => HIDDEN_CARD);
+
+// The table as one player may see it: other hands, the deck, the discards and the card someone offers in the
+// 1-card swap are face down, the revealed card is only shown while it is being decided on, the seed (which
+// would give every deal away) is dropped, and only the viewer's seat is marked human, since the
+// UI treats the human seat as "you"
+export const redactState = (state: GameState, viewerId: string): GameState => ({
+  ...state,
+  deck: hideCards(state.deck),
+  discards: state.discards && hideCards(state.discards),
+  cardToSwap: state.cardToSwap && (state.players[state.currentPlayerIndex]?.id === viewerId ? state.cardToSwap : HIDDEN_CARD),
+  revealedCard: state.gamePhase === GamePhase.FINAL_SWAP_ONE_CARD_REVEAL_AND_DECIDE ? state.revealedCard : undefined,
+  seed: undefined,
+  players: state.players.map(player => player.id === viewerId
+    ? { ...player, isHuman: true }
+    : { ...player, isHuman: false, hand: hideCards(player.hand) }),
+});
+
+// Cards swapped away go face down, so only the player who swapped them sees which they were
+export const redactAction = (action: GameAction, viewerId: string): GameAction => {
+  switch (action.type) {
+    case 'DEAL':
+      return { ...action, deck: hideCards(action.deck) };
+    case 'SWAP_CARDS':
+      return action.playerId === viewerId ? action : { ...action, cards: hideCards(action.cards) };
+    case 'SELECT_ONE_CARD_SWAP':
+      return action.playerId === viewerId ? action : { ...action, card: HIDDEN_CARD };
+    default:
+      return action;
+  }
+};
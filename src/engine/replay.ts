@@ -0,0 +1,81 @@
+import { EngineError, GameAction, GameLog, GameState } from '../../types';
+import { formatCard, formatCards } from './deck';
+import { applyAction, createGame } from './engine';
+import { isHiddenCard } from './redact';
+
+// Starts a log for a game that has been created but not yet dealt
+export const createGameLog = (state: GameState): GameLog => ({
+  seed: state.seed,
+  dealerIndex: Math.max(0, state.players.findIndex(p => p.isDealer)),
+  players: state.players,
+  actions: [],
+  ante: state.ante,
+  rules: state.rules,
+});
+
+export const recordAction = (log: GameLog, action: GameAction): GameLog => ({ ...log, actions: [...log.actions, action] });
+
+// The seed for the next bot decision: each action of each deal gets its own stream of the game's seed, so the
+// bots make the same moves whenever the game is played again from its seed
+export const getBotSeed = (log: GameLog): string => {
+  const deals = log.actions.filter(action => action.type === 'DEAL').length;
+  const turn = log.actions.length - 1 - log.actions.map(action => action.type).lastIndexOf('DEAL');
+  return `${log.seed ?? ''}:bots:${deals}:${turn}`;
+};
+
+// Rebuilds every state of a logged game: states[0] is the table before the first deal and states[i] the
+// table after action i. If an action is rejected the replay stops there and reports why.
+export const replayGame = (log: GameLog): { states: GameState[]; error?: EngineError } => {
+  let state = createGame(log.players, log.dealerIndex, log.seed, log.ante, log.rules);
+  const states = [state];
+  for (const action of log.actions) {
+    const result = applyAction(state, action);
+    if (result.ok === false) return { states, error: result.error };
+    state = result.state;
+    states.push(state);
+  }
+  return { states };
+};
+
+// One-line caption for an action, given the state it was applied to
+export const describeAction = (state: GameState, action: GameAction): string => {
+  const name = 'playerId' in action ? state.players.find(p => p.id === action.playerId)?.name ?? action.playerId : '';
+
+  switch (action.type) {
+    case 'DEAL':
+      return (state.minigamePlayers ?? []).length > 0 ? 'The minigame hands are dealt.' : 'The cards are dealt.';
+    case 'FIRST_SWAP_DECISION':
+      return action.wantsToSwap ? `${name} chooses to swap.` : `${name} stands pat.`;
+    case 'OTHERS_SWAP_DECISION':
+      return action.wantsToSwap ? `${name} will match the swap.` : `${name} stands pat.`;
+    case 'SWAP_CARDS':
+      return action.cards.some(isHiddenCard) ? `${name} swaps ${action.cards.length} card(s).` : `${name} swaps ${formatCards(action.cards)}.`;
+    case 'VOTE_DECISION':
+      return action.wantsToVote ? `${name} joins the vote.` : `${name} stays out of the vote.`;
+    case 'VOTE':
+      return `${name} votes to swap ${action.amount} card(s).`;
+    case 'FINAL_SWAP_DECISION':
+      return action.participate ? `${name} joins the final swap.` : `${name} sits out the final swap.`;
+    case 'SELECT_ONE_CARD_SWAP':
+      return isHiddenCard(action.card) ? `${name} offers a card for the 1-card swap.` : `${name} offers ${formatCard(action.card)} for the 1-card swap.`;
+    case 'ONE_CARD_SWAP_DECISION':
+      return action.keep ? `${name} keeps the revealed card.` : `${name} declines the revealed card.`;
+    case 'PLAY_CARDS':
+      return `${name} plays ${formatCards(action.cards)}.`;
+    case 'NEXT_ROUND':
+      return 'The trick is cleared and the next round begins.';
+    case 'MINIGAME_SWAP':
+      return action.wantsToSwap ? `${name} swaps their minigame hand.` : `${name} keeps their minigame hand.`;
+  }
+};
+
+// Picks a saved game back up at its last state. If the rules have changed and part of the log is no longer
+// accepted, the game resumes from the last good state and the log is trimmed to match.
+export const resumeFromLog = (log: GameLog): { state: GameState; log: GameLog; error?: EngineError } => {
+  const { states, error } = replayGame(log);
+  return {
+    state: states[states.length - 1],
+    log: { ...log, actions: log.actions.slice(0, states.length - 1) },
+    error,
+  };
+};
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameAction, GamePhase, GameState, Player, RuleSet, RuleSetId } from '../../types';
+import { createDeck, formatCard, shuffleDeck } from './deck';
+import { applyAction, createGame } from './engine';
+import { createRng } from './random';
+import { RULE_SETS, STANDARD_RULES, getRuleSetProblems } from './ruleSets';
+
+const seat = (id: string): Player => ({ id, name: id, avatar: '', isHuman: false, hand: [], playedCards: [], score: 0 });
+
+const withHandSize = (rules: RuleSet, handSize: number): RuleSet =>
+  ({ ...rules, id: RuleSetId.CUSTOM, faceDownCards: handSize - 1, handLimit: handSize });
+
+// Deals, then every player swaps as many cards as they can at every chance, until play starts
+const playWorstCaseSwaps = (rules: RuleSet, playerCount: number): GameState => {
+  const players = Array.from({ length: playerCount }, (_, i) => seat(`p${i + 1}`));
+  let state = createGame(players, 0, 'DRAWS', undefined, rules);
+  const apply = (action: GameAction) => {
+    const result = applyAction(state, action);
+    if (result.ok === false) assert.fail(`${action.type} in ${state.gamePhase}: ${result.error.message}`);
+    state = result.state;
+  };
+
+  apply({ type: 'DEAL', deck: shuffleDeck(createDeck(), createRng('DRAWS')) });
+  while (state.gamePhase !== GamePhase.GAMEPLAY) {
+    const player = state.players[state.currentPlayerIndex];
+    const playerId = player.id;
+    switch (state.gamePhase) {
+      case GamePhase.FIRST_SWAP_DECISION: apply({ type: 'FIRST_SWAP_DECISION', playerId, wantsToSwap: true }); break;
+      case GamePhase.OTHERS_SWAP_DECISION: apply({ type: 'OTHERS_SWAP_DECISION', playerId, wantsToSwap: true }); break;
+      case GamePhase.FIRST_SWAP_ACTION: apply({ type: 'SWAP_CARDS', playerId, cards: player.hand }); break;
+      case GamePhase.OTHERS_SWAP_ACTION: apply({ type: 'SWAP_CARDS', playerId, cards: player.hand.slice(0, state.swapAmount) }); break;
+      case GamePhase.VOTE_SWAP_DECISION: apply({ type: 'VOTE_DECISION', playerId, wantsToVote: true }); break;
+      case GamePhase.VOTE_SWAP: apply({ type: 'VOTE', playerId, amount: rules.maxVote }); break;
+      case GamePhase.FINAL_SWAP_ACTION: apply({ type: 'SWAP_CARDS', playerId, cards: player.hand.slice(0, state.voteResult) }); break;
+      default: assert.fail(`Unexpected phase ${state.gamePhase}`);
+    }
+  }
+  return state;
+};
+
+test('every preset can be played at 3 and 4 players', () => {
+  Object.values(RULE_SETS).forEach(rules => {
+    assert.deepEqual(getRuleSetProblems(rules, 3), []);
+    assert.deepEqual(getRuleSetProblems(rules, 4), []);
+  });
+});
+
+test('the deal plus the largest single draw has to fit in one deck', () => {
+  // 4 hands of 10 leave 12 cards, enough for a 10-card first swap; hands of 11 leave 8
+  assert.deepEqual(getRuleSetProblems(withHandSize(STANDARD_RULES, 10), 4), []);
+  assert.equal(getRuleSetProblems(withHandSize(STANDARD_RULES, 11), 4).length, 1);
+  // A minigame deals every tied player a hand and then swaps one
+  assert.deepEqual(getRuleSetProblems({ ...STANDARD_RULES, minigameHandSize: 10 }, 4), []);
+  assert.equal(getRuleSetProblems({ ...STANDARD_RULES, minigameHandSize: 11 }, 4).length, 1);
+});
+
+test('rules that break several checks report every problem', () => {
+  const problems = getRuleSetProblems({ ...withHandSize(STANDARD_RULES, 11), handLimit: 5 }, 4);
+  assert.equal(problems.length, 2);
+});
+
+test('the largest swaps the rules allow never run out of cards', () => {
+  [{ rules: STANDARD_RULES, playerCount: 4 }, { rules: withHandSize(STANDARD_RULES, 10), playerCount: 4 }].forEach(({ rules, playerCount }) => {
+    const state = playWorstCaseSwaps(rules, playerCount);
+    // Every card is still somewhere, once
+    const cards = [...state.players.flatMap(p => p.hand), ...state.deck, ...(state.discards ?? [])].map(formatCard);
+    assert.equal(new Set(cards).size, 52);
+    assert.equal(cards.length, 52);
+  });
+});
@@ -0,0 +1,104 @@
+import { GameState, RuleSet, RuleSetId, VoteTieBreak } from '../../types';
+import { createDeck } from './deck';
+
+// House rules. A game carries the rule set it was created with, so saved games, replays and online
+// tables keep playing by the rules they started under.
+export const STANDARD_RULES: RuleSet = {
+  id: RuleSetId.STANDARD,
+  name: 'Standard',
+  description: 'Four cards down and one up, a vote of 1 to 5 cards with ties going to the lowest, and the 1-card reveal.',
+  faceDownCards: 4,
+  hasVote: true,
+  minVote: 1,
+  maxVote: 5,
+  voteTieBreak: VoteTieBreak.LOWEST,
+  zeroVoteCanWin: false,
+  oneCardReveal: true,
+  allowEqualAndSacrifice: true,
+  minigameHandSize: 3,
+  handLimit: 5,
+};
+
+// The presets every table knows; rule sets made in the editor are RuleSetId.CUSTOM
+export const RULE_SETS: { [key in Exclude<RuleSetId, RuleSetId.CUSTOM>]: RuleSet } = {
+  [RuleSetId.STANDARD]: STANDARD_RULES,
+  [RuleSetId.QUICK]: {
+    ...STANDARD_RULES,
+    id: RuleSetId.QUICK,
+    name: 'No-Vote Quick Game',
+    description: 'Three cards down and one up, and play starts right after the first swap: no vote and no final swap.',
+    faceDownCards: 3,
+    hasVote: false,
+    handLimit: 4,
+  },
+  [RuleSetId.FAMILY]: {
+    ...STANDARD_RULES,
+    id: RuleSetId.FAMILY,
+    name: 'Family Rules',
+    description: 'Vote 0 to 3 cards, where 0 calls off the final swap and ties go to the bigger swap. A 1-card swap is a plain swap.',
+    minVote: 0,
+    maxVote: 3,
+    voteTieBreak: VoteTieBreak.HIGHEST,
+    zeroVoteCanWin: true,
+    oneCardReveal: false,
+  },
+};
+
+export const getRules = (state: GameState): RuleSet => state.rules ?? STANDARD_RULES;
+
+// Every amount a player may vote for, smallest first
+export const getVoteAmounts = (rules: RuleSet): number[] =>
+  Array.from({ length: rules.maxVote - rules.minVote + 1 }, (_, i) => rules.minVote + i);
+
+// The allowed vote nearest to `amount`, for bots that choose from the standard range
+export const clampVote = (rules: RuleSet, amount: number): number => Math.min(rules.maxVote, Math.max(rules.minVote, amount));
+
+const DECK_SIZE = createDeck().length;
+
+const isWholeNumber = (value: number, min: number): boolean => Number.isInteger(value) && value >= min;
+
+// The most cards one player can take from the deck in one go: the whole hand in the first swap, the biggest
+// final swap, or the 1-card reveal's card and the one after it if it is declined
+export const getLargestDraw = (rules: RuleSet): number => {
+  const handSize = rules.faceDownCards + 1;
+  if (!rules.hasVote) return handSize;
+  const revealDraw = rules.oneCardReveal && rules.minVote <= 1 && rules.maxVote >= 1 ? 2 : 0;
+  return Math.max(handSize, rules.maxVote, revealDraw);
+};
+
+// Why a rule set cannot be played at a table of `playerCount`, one player-facing reason per problem; empty
+// when it can. Swapped-away cards are shuffled back in when the deck runs short, so one deck has to cover
+// every hand plus the largest draw any one player can make, for the deal and for a minigame of the whole table.
+export const getRuleSetProblems = (rules: RuleSet, playerCount: number): string[] => {
+  const problems: string[] = [];
+  const handSize = rules.faceDownCards + 1;
+  const largestDraw = getLargestDraw(rules);
+
+  if (!isWholeNumber(rules.faceDownCards, 1)) {
+    problems.push('Deal at least 1 card face down.');
+  } else {
+    if (playerCount * handSize + largestDraw > DECK_SIZE) {
+      problems.push(`${playerCount} players with ${handSize} cards each leave ${Math.max(0, DECK_SIZE - playerCount * handSize)} cards to draw from, fewer than the ${largestDraw} one swap can take.`);
+    }
+    if (!isWholeNumber(rules.handLimit, handSize)) {
+      problems.push(`The hand limit cannot be below the ${handSize} cards dealt.`);
+    }
+  }
+
+  if (rules.hasVote) {
+    if (!isWholeNumber(rules.minVote, 0) || !isWholeNumber(rules.maxVote, 1)) {
+      problems.push('Votes are whole numbers of cards, and at least 1 card has to be on offer.');
+    } else if (rules.minVote > rules.maxVote) {
+      problems.push('The lowest vote cannot be above the highest.');
+    } else if (rules.maxVote > handSize) {
+      problems.push(`Nobody can vote to swap ${rules.maxVote} cards from a hand of ${handSize}.`);
+    }
+  }
+
+  if (!isWholeNumber(rules.minigameHandSize, 1)) {
+    problems.push('Minigame hands need at least 1 card.');
+  } else if ((playerCount + 1) * rules.minigameHandSize > DECK_SIZE) {
+    problems.push(`A minigame of ${rules.minigameHandSize} cards each needs ${(playerCount + 1) * rules.minigameHandSize} cards to deal all ${playerCount} players and swap a hand, more than the ${DECK_SIZE} in a deck.`);
+  }
+  return problems;
+};
@@ -0,0 +1,220 @@
+import { Card, GamePhase, GameState, InvalidPlayReason, LegalPlay, Player, PlayKind, PlayValidation, RuleSet, TrickPlay, VoteTieBreak } from '../../types';
+import { formatCards, isSameCard, removeCards, sumCards } from './deck';
+import { STANDARD_RULES, getRules } from './ruleSets';
+
+export const MAX_LEAD_SIZE = 4;
+
+export const groupByRank = (cards: Card[]): Card[][] => {
+  const groups: { [rank: string]: Card[] } = {};
+  cards.forEach(card => {
+    if (!groups[card.rank]) groups[card.rank] = [];
+    groups[card.rank].push(card);
+  });
+  return Object.values(groups);
+};
+
+export const isSameRank = (cards: Card[]): boolean => cards.every(c => c.rank === cards[0].rank);
+
+// The commander's cards are the original lead of the current trick; every follower is validated against them
+export const getCommanderCards = (state: GameState): Card[] => {
+  if (state.currentTrick.length === 0) return [];
+  return state.currentTrick[0].cards;
+};
+
+// Sacrifices must be the lowest cards in hand. Suits are interchangeable, so only the values are compared.
+const isLowestCards = (hand: Card[], cards: Card[]): boolean => {
+  const required = [...hand].sort((a, b) => a.value - b.value).slice(0, cards.length).map(c => c.value);
+  const played = cards.map(c => c.value).sort((a, b) => a - b);
+  return required.length === played.length && required.every((value, i) => value === played[i]);
+};
+
+// Every k-card subset of the given cards, in hand order
+const combinations = (cards: Card[], k: number): Card[][] => {
+  if (k === 0) return [[]];
+  const result: Card[][] = [];
+  cards.forEach((card, i) => {
+    combinations(cards.slice(i + 1), k - 1).forEach(rest => result.push([card, ...rest]));
+  });
+  return result;
+};
+
+// Every way to pick the lowest cards; cards of equal value are interchangeable, so there may be several
+const lowestCardChoices = (hand: Card[], count: number): Card[][] => {
+  return combinations(hand, count).filter(cards => isLowestCards(hand, cards));
+};
+
+// One anchor card matching the predicate plus the lowest remaining cards
+const anchorAndSacrificePlays = (hand: Card[], count: number, isAnchor: (card: Card) => boolean, kind: PlayKind): LegalPlay[] => {
+  return hand.filter(isAnchor).flatMap(anchor =>
+    lowestCardChoices(removeCards(hand, [anchor])!, count - 1).map(rest => ({ kind, cards: [anchor, ...rest] }))
+  );
+};
+
+// True if both lists hold exactly the same cards, in any order
+export const isSamePlay = (a: Card[], b: Card[]): boolean => a.length === b.length && !!removeCards(a, b);
+
+// Different anchors can produce the same set of cards; keep the first description of each
+const uniquePlays = (plays: LegalPlay[]): LegalPlay[] => {
+  return plays.filter((play, i) => plays.findIndex(other => isSamePlay(other.cards, play.cards)) === i);
+};
+
+// Lists every legal play for a hand against the commander's cards (an empty lead means the player is leading)
+export const getLegalPlaysForHand = (hand: Card[], leadHand: Card[], rules: RuleSet = STANDARD_RULES): LegalPlay[] => {
+  if (leadHand.length === 0) {
+    return groupByRank(hand).flatMap(group => {
+      const plays: LegalPlay[] = [];
+      for (let size = 1; size <= Math.min(MAX_LEAD_SIZE, group.length); size++) {
+        combinations(group, size).forEach(cards => plays.push({ kind: PlayKind.LEAD, cards }));
+      }
+      return plays;
+    });
+  }
+
+  const count = leadHand.length;
+  const leadValue = leadHand[0].value;
+  if (hand.length < count) return [];
+
+  // Forced play: a same-rank set that equals or beats the commander must be played if held
+  const winningSets = groupByRank(hand)
+    .filter(group => group.length >= count && group[0].value >= leadValue)
+    .flatMap(group => combinations(group, count).map(cards => ({ kind: PlayKind.WINNING_SET, cards })));
+  if (winningSets.length > 0) return winningSets;
+
+  // Beat and sacrifice is mandatory whenever a single higher card is held
+  if (hand.some(c => c.value > leadValue)) {
+    return uniquePlays(anchorAndSacrificePlays(hand, count, c => c.value > leadValue, PlayKind.BEAT_AND_SACRIFICE));
+  }
+
+  // Equal and sacrifice is optional, where the rules allow it; otherwise the lowest cards are sacrificed
+  return uniquePlays([
+    ...(rules.allowEqualAndSacrifice ? anchorAndSacrificePlays(hand, count, c => c.value === leadValue, PlayKind.EQUAL_AND_SACRIFICE) : []),
+    ...lowestCardChoices(hand, count).map(cards => ({ kind: PlayKind.SACRIFICE, cards })),
+  ]);
+};
+
+// Legal plays for the player whose turn it is; anyone else has none
+export const getLegalPlays = (state: GameState, playerId: string): LegalPlay[] => {
+  if (state.gamePhase !== GamePhase.GAMEPLAY && state.gamePhase !== GamePhase.MINIGAME) return [];
+  const player = state.players[state.currentPlayerIndex];
+  if (!player || player.id !== playerId) return [];
+  return getLegalPlaysForHand(player.hand, getCommanderCards(state), getRules(state));
+};
+
+const invalidPlay = (reason: InvalidPlayReason, requiredCards: Card[] = []): PlayValidation => ({ valid: false, reason, requiredCards });
+
+// Checks a play against the legal plays and, when it is not one of them, names the rule it breaks
+export const validatePlay = (hand: Card[], leadHand: Card[], cards: Card[], rules: RuleSet = STANDARD_RULES): PlayValidation => {
+  if (!removeCards(hand, cards)) return invalidPlay(InvalidPlayReason.CARDS_NOT_IN_HAND);
+
+  const legalPlays = getLegalPlaysForHand(hand, leadHand, rules);
+  const match = legalPlays.find(play => isSamePlay(play.cards, cards));
+  if (match) return { valid: true, kind: match.kind };
+
+  if (leadHand.length === 0) {
+    if (cards.length === 0 || cards.length > MAX_LEAD_SIZE) return invalidPlay(InvalidPlayReason.WRONG_COUNT);
+    return invalidPlay(InvalidPlayReason.MIXED_RANKS);
+  }
+
+  if (cards.length !== leadHand.length) {
+    return invalidPlay(InvalidPlayReason.WRONG_COUNT, legalPlays[0]?.cards);
+  }
+
+  const winningSet = legalPlays.find(play => play.kind === PlayKind.WINNING_SET);
+  if (winningSet) return invalidPlay(InvalidPlayReason.MUST_BEAT_WHEN_ABLE, winningSet.cards);
+
+  const leadValue = leadHand[0].value;
+  const beatPlays = legalPlays.filter(play => play.kind === PlayKind.BEAT_AND_SACRIFICE);
+  if (beatPlays.length > 0) {
+    // Beating with a higher card but holding back lower ones breaks the sacrifice rule, not the beat rule
+    if (!cards.some(c => c.value > leadValue)) {
+      return invalidPlay(InvalidPlayReason.MUST_BEAT_AND_SACRIFICE, beatPlays[0].cards);
+    }
+    const sameAnchor = beatPlays.find(play => cards.some(c => isSameCard(c, play.cards[0])));
+    return invalidPlay(InvalidPlayReason.SACRIFICE_NOT_LOWEST, (sameAnchor ?? beatPlays[0]).cards);
+  }
+
+  const sacrifice = legalPlays.find(play => play.kind === PlayKind.SACRIFICE);
+  return invalidPlay(InvalidPlayReason.SACRIFICE_NOT_LOWEST, sacrifice?.cards);
+};
+
+// A player-facing explanation of why a play was rejected
+export const describeInvalidPlay = (validation: PlayValidation, leadHand: Card[]): string => {
+  const required = validation.requiredCards && validation.requiredCards.length > 0 ? formatCards(validation.requiredCards) : '';
+  const leadRank = leadHand.length > 0 ? leadHand[0].rank : '';
+
+  switch (validation.reason) {
+    case InvalidPlayReason.CARDS_NOT_IN_HAND:
+      return 'Those cards are not in your hand.';
+    case InvalidPlayReason.WRONG_COUNT:
+      return leadHand.length === 0
+        ? `Lead with 1 to ${MAX_LEAD_SIZE} cards of the same rank.`
+        : `You must play exactly ${leadHand.length} card(s) to follow the commander.`;
+    case InvalidPlayReason.MIXED_RANKS:
+      return 'A lead must be cards of the same rank.';
+    case InvalidPlayReason.MUST_BEAT_WHEN_ABLE:
+      return `You hold a set that beats or matches the ${leadRank}s, so you must play it (${required}).`;
+    case InvalidPlayReason.MUST_BEAT_AND_SACRIFICE:
+      return `You hold a card higher than ${leadRank}, so you must beat it and sacrifice your lowest cards (${required}).`;
+    case InvalidPlayReason.SACRIFICE_NOT_LOWEST:
+      return `Sacrificed cards must be your lowest cards (${required}).`;
+    default:
+      return 'That play is not allowed.';
+  }
+};
+
+// The highest same-rank play that matches or beats the commander wins; the later play wins ties.
+// Mixed plays (sacrifices) can never win, so if nobody beats the lead the leader keeps the trick.
+export const determineTrickWinner = (trick: TrickPlay[], roundLeaderId: string): string => {
+  const leaderPlay = trick.find(p => p.playerId === roundLeaderId);
+  if (!leaderPlay) return roundLeaderId;
+
+  let winnerId = roundLeaderId;
+  let highestValue = leaderPlay.cards[0].value;
+  for (const play of trick) {
+    if (play.playerId === roundLeaderId || !isSameRank(play.cards)) continue;
+    if (play.cards[0].value >= highestValue) {
+      highestValue = play.cards[0].value;
+      winnerId = play.playerId;
+    }
+  }
+  return winnerId;
+};
+
+// Majority wins and a tie goes to the lowest vote (the highest under some house rules). 0 can only win
+// where the rules allow it; otherwise the lowest other vote carries.
+export const tallyVotes = (votes: number[], rules: RuleSet = STANDARD_RULES): number => {
+  const voteCounts: { [vote: number]: number } = {};
+  votes.forEach(v => {
+    voteCounts[v] = (voteCounts[v] || 0) + 1;
+  });
+
+  let winningVote = 0;
+  let maxVotes = 0;
+  Object.entries(voteCounts).forEach(([voteStr, count]) => {
+    const vote = parseInt(voteStr);
+    const winsTie = rules.voteTieBreak === VoteTieBreak.HIGHEST ? vote > winningVote : vote < winningVote;
+    if (count > maxVotes || (count === maxVotes && winsTie)) {
+      maxVotes = count;
+      winningVote = vote;
+    }
+  });
+
+  if (winningVote === 0 && !rules.zeroVoteCanWin) {
+    const nonZeroVotes = votes.filter(v => v > 0);
+    return nonZeroVotes.length > 0 ? Math.min(...nonZeroVotes) : 1;
+  }
+  return winningVote;
+};
+
+// Each player's score is the total value of the cards they played in the final trick
+export const scoreFinalTrick = (trick: TrickPlay[]): { [playerId: string]: number } => {
+  const scores: { [playerId: string]: number } = {};
+  trick.forEach(play => {
+    scores[play.playerId] = sumCards(play.cards);
+  });
+  return scores;
+};
+
+export const enforceHandLimit = (players: Player[], handLimit: number = STANDARD_RULES.handLimit): Player[] => {
+  return players.map(player => player.hand.length > handLimit ? { ...player, hand: player.hand.slice(0, handLimit) } : player);
+};
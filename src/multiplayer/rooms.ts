@@ -0,0 +1,385 @@
+import { Card, ClientMessage, GameAction, GamePhase, GameState, Player, Rank, RoomInfo, RoomSeat, RuleSet, RuleSetId, ServerMessage, Suit, VoteTieBreak } from '../../types';
+import { CARD_VALUES, STANDARD_RULES, applyAction, createDeck, createGame, createRng, generateSeed, getRuleSetProblems, redactAction, redactState, shuffleDeck } from '../engine';
+import { decideBotAction } from '../bots';
+
+// Authoritative tables for online play. Whoever hosts (the Node server in server/, or a browser tab
+// for cross-tab play) runs these rooms; players only ever see what their own seat may see.
+
+const MIN_SEATS = 3;
+const MAX_SEATS = 4;
+const BOT_DELAY = 1500; // Pause before a bot (or a disconnected player's stand-in) acts, so people can follow along
+const DEALT_DELAY = 7000; // Clients animate the main deal before anyone acts
+const DEAL_DELAY = 2000;
+const NEXT_ROUND_DELAY = 5000; // Leave the finished trick on the table for a moment, as the local game does
+const ROOM_CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I or O, which read like 1 and 0
+
+// Anything that can receive server messages: a WebSocket, another tab, or the hosting tab itself
+export interface Connection {
+  send: (message: ServerMessage) => void;
+}
+
+export interface Room {
+  code: string;
+  hostId: string;
+  seatCount: number;
+  seats: RoomSeat[];
+  connections: Map<string, Connection>; // Keyed by the player id of the seat
+  seatTokens: Map<string, string>; // Secret that reclaims each human seat, keyed by the seat's player id
+  seed: string;
+  rules: RuleSet;
+  state?: GameState;
+  dealCount: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+// The room and seat a connection plays, once it has created or joined one
+export interface SeatRef {
+  room: Room;
+  playerId: string;
+}
+
+export type RoomResult =
+  | { ok: true; room: Room; playerId: string; token: string }
+  | { ok: false; message: string };
+
+const rooms = new Map<string, Room>();
+
+export const hasRoom = (code: string): boolean => rooms.has(code.trim().toUpperCase());
+
+const createRoomCode = (): string => {
+  let code = '';
+  do {
+    code = Array.from({ length: 4 }, () => ROOM_CODE_LETTERS[Math.floor(Math.random() * ROOM_CODE_LETTERS.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+// Player ids are shown to the whole table, so taking a seat back after a lost connection needs a secret
+// that only the seat's own client was sent
+const createSeatToken = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Seats are numbered player1..playerN; one freed up before the start is handed out again
+const nextSeatId = (room: Room): string => {
+  let seatNumber = 1;
+  while (room.seats.some(seat => seat.id === `player${seatNumber}`)) seatNumber++;
+  return `player${seatNumber}`;
+};
+
+export const getRoomInfo = (room: Room): RoomInfo => ({
+  code: room.code,
+  hostId: room.hostId,
+  seatCount: room.seatCount,
+  seats: room.seats,
+  started: !!room.state,
+  rules: room.rules,
+});
+
+const broadcastRoom = (room: Room) => {
+  const message: ServerMessage = { type: 'ROOM', room: getRoomInfo(room) };
+  room.connections.forEach(connection => connection.send(message));
+};
+
+// Every seat gets the table as its player may see it
+const broadcastState = (room: Room, action?: GameAction) => {
+  if (!room.state) return;
+  room.connections.forEach((connection, playerId) => {
+    connection.send({
+      type: 'STATE',
+      state: redactState(room.state!, playerId),
+      action: action && redactAction(action, playerId),
+    });
+  });
+};
+
+// Rules the client leaves out are played the standard way; the ones it sends were checked by describeInvalidRules
+const readRules = (requested: Partial<RuleSet> = {}): RuleSet => ({ ...STANDARD_RULES, ...requested });
+
+export const createRoom = (connection: Connection, name: string, seatCount: number, requestedRules?: Partial<RuleSet>): RoomResult => {
+  if (!Number.isInteger(seatCount) || seatCount < MIN_SEATS || seatCount > MAX_SEATS) {
+    return { ok: false, message: `A table seats ${MIN_SEATS} to ${MAX_SEATS} players.` };
+  }
+  const rules = readRules(requestedRules);
+  const ruleProblems = getRuleSetProblems(rules, seatCount);
+  if (ruleProblems.length > 0) return { ok: false, message: ruleProblems[0] };
+  const code = createRoomCode();
+  const playerId = 'player1';
+  const token = createSeatToken();
+  const room: Room = {
+    code,
+    hostId: playerId,
+    seatCount,
+    seats: [{ id: playerId, name: name.trim() || 'Player 1', isBot: false, connected: true }],
+    connections: new Map([[playerId, connection]]),
+    seatTokens: new Map([[playerId, token]]),
+    seed: generateSeed(),
+    rules,
+    dealCount: 0,
+  };
+  rooms.set(code, room);
+  broadcastRoom(room);
+  return { ok: true, room, playerId, token };
+};
+
+// Takes a free seat, or reclaims the seat `token` was issued for after it lost its connection
+export const joinRoom = (connection: Connection, code: string, name: string, token?: string): RoomResult => {
+  const room = rooms.get(code.trim().toUpperCase());
+  if (!room) return { ok: false, message: `There is no room ${code.toUpperCase()}.` };
+
+  const returningId = token ? [...room.seatTokens].find(([, seatToken]) => seatToken === token)?.[0] : undefined;
+  const returningSeat = room.seats.find(seat => seat.id === returningId && !seat.isBot);
+  if (returningSeat && token) {
+    if (returningSeat.connected) return { ok: false, message: 'That seat is already taken.' };
+    returningSeat.connected = true;
+    room.connections.set(returningSeat.id, connection);
+    broadcastRoom(room);
+    broadcastState(room);
+    scheduleNextStep(room);
+    return { ok: true, room, playerId: returningSeat.id, token };
+  }
+
+  if (room.state) return { ok: false, message: 'That game has already started.' };
+  if (room.seats.length >= room.seatCount) return { ok: false, message: 'That room is full.' };
+
+  const seatId = nextSeatId(room);
+  const seat: RoomSeat = { id: seatId, name: name.trim() || `Player ${room.seats.length + 1}`, isBot: false, connected: true };
+  room.seats.push(seat);
+  room.seats.sort((a, b) => a.id.localeCompare(b.id));
+  room.connections.set(seat.id, connection);
+  const seatToken = createSeatToken();
+  room.seatTokens.set(seat.id, seatToken);
+  broadcastRoom(room);
+  return { ok: true, room, playerId: seat.id, token: seatToken };
+};
+
+// Bots take the empty seats; the first hand is dealt after everyone has seen the table
+export const startRoomGame = (room: Room, playerId: string): string | undefined => {
+  if (playerId !== room.hostId) return 'Only the host can start the game.';
+  if (room.state) return 'The game has already started.';
+
+  for (let botNumber = 1; room.seats.length < room.seatCount; botNumber++) {
+    room.seats.push({ id: nextSeatId(room), name: `Bot ${botNumber}`, isBot: true, connected: true });
+  }
+  const players: Player[] = room.seats.map(seat => ({
+    id: seat.id,
+    name: seat.name,
+    isHuman: !seat.isBot,
+    avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${room.code}-${seat.id}&backgroundColor=b6e3f4,c0aede,d1d4f9,ffd5dc,ffdfbf`,
+    hand: [],
+    playedCards: [],
+    score: 0,
+  }));
+  const dealerIndex = Math.floor(createRng(`${room.seed}:dealer`)() * players.length);
+  room.state = createGame(players, dealerIndex, room.seed, undefined, room.rules);
+  broadcastRoom(room);
+  broadcastState(room);
+  scheduleNextStep(room);
+  return undefined;
+};
+
+// Applies an action sent by a player. Players may only act for their own seat; the server deals and moves rounds on.
+export const applyPlayerAction = (room: Room, playerId: string, action: GameAction): string | undefined => {
+  if (!room.state) return 'The game has not started yet.';
+  if (action.type === 'DEAL' || action.type === 'NEXT_ROUND' || action.playerId !== playerId) {
+    return 'You can only act for your own seat.';
+  }
+  return applyRoomAction(room, action);
+};
+
+const applyRoomAction = (room: Room, action: GameAction): string | undefined => {
+  const result = applyAction(room.state!, action);
+  if (result.ok === false) return result.error.message;
+  room.state = result.state;
+  broadcastState(room, action);
+  scheduleNextStep(room, action);
+  return undefined;
+};
+
+// Each deal gets its own stream of the room's seed, like a local game
+const deal = (room: Room) => {
+  const deck = shuffleDeck(createDeck(), createRng(`${room.seed}:deal:${room.dealCount}`));
+  room.dealCount++;
+  const error = applyRoomAction(room, { type: 'DEAL', deck });
+  if (error) console.error(`[ROOM ${room.code}] Deal failed: ${error}`);
+};
+
+const isAutomated = (room: Room, playerId: string): boolean => {
+  const seat = room.seats.find(s => s.id === playerId);
+  return !seat || seat.isBot || !seat.connected;
+};
+
+// Moves the game on whenever nobody connected is being waited for: minigame deals, the next round,
+// and turns of bots or of players who have dropped out
+const scheduleNextStep = (room: Room, lastAction?: GameAction) => {
+  clearTimeout(room.timer);
+  room.timer = undefined;
+  const state = room.state;
+  if (!state) return;
+
+  const current = state.players[state.currentPlayerIndex];
+  switch (state.gamePhase) {
+    case GamePhase.DEALING:
+      room.timer = setTimeout(() => deal(room), DEAL_DELAY);
+      return;
+    case GamePhase.ROUND_OVER:
+      room.timer = setTimeout(() => applyRoomAction(room, { type: 'NEXT_ROUND' }), NEXT_ROUND_DELAY);
+      return;
+    case GamePhase.GAME_OVER:
+      return;
+  }
+
+  if (current && isAutomated(room, current.id)) {
+    const delay = lastAction?.type === 'DEAL' && (state.minigamePlayers ?? []).length === 0 ? DEALT_DELAY : BOT_DELAY;
+    room.timer = setTimeout(() => {
+      // The bot sees the table from its own seat, like every other player
+      const action = decideBotAction(redactState(room.state!, current.id), current.id);
+      const error = action ? applyRoomAction(room, action) : 'no action';
+      if (error) console.error(`[ROOM ${room.code}] Bot ${current.name} could not act in ${room.state!.gamePhase}: ${error}`);
+    }, delay);
+  }
+};
+
+// A dropped player's seat is played by the bot until they rejoin; empty rooms are closed
+export const leaveRoom = (room: Room, playerId: string) => {
+  const seat = room.seats.find(s => s.id === playerId);
+  if (!seat) return;
+  room.connections.delete(playerId);
+
+  if (room.connections.size === 0) {
+    clearTimeout(room.timer);
+    rooms.delete(room.code);
+    return;
+  }
+
+  if (room.state) {
+    seat.connected = false;
+    scheduleNextStep(room);
+  } else {
+    // Before the game starts the seat simply frees up again
+    room.seats = room.seats.filter(s => s.id !== playerId);
+    room.seatTokens.delete(playerId);
+    if (room.hostId === playerId) room.hostId = room.seats[0].id;
+  }
+  broadcastRoom(room);
+};
+
+// Messages come from other people's browsers, so their shape is checked before anything reads them
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCard = (value: unknown): value is Card =>
+  isRecord(value) && Object.values(Suit).includes(value.suit as Suit) && Object.values(Rank).includes(value.rank as Rank)
+  && value.value === CARD_VALUES[value.rank as Rank];
+
+const isCardList = (value: unknown): value is Card[] => Array.isArray(value) && value.every(isCard);
+
+// The rules whose values are enums; every other rule takes any value of its type
+const RULE_ENUMS: Partial<Record<keyof RuleSet, string[]>> = {
+  id: Object.values(RuleSetId),
+  voteTieBreak: Object.values(VoteTieBreak),
+};
+
+// Why house rules sent by a client cannot be read, or undefined when every key is a rule with a value it can take
+const describeInvalidRules = (rules: Record<string, unknown>): string | undefined => {
+  for (const [key, value] of Object.entries(rules)) {
+    if (!(key in STANDARD_RULES)) return `There is no rule called ${key}.`;
+    const allowed = RULE_ENUMS[key as keyof RuleSet];
+    const isValid = allowed ? allowed.includes(value as string) : typeof value === typeof STANDARD_RULES[key as keyof RuleSet];
+    if (!isValid) return `The rule ${key} cannot be ${JSON.stringify(value)}.`;
+  }
+  return undefined;
+};
+
+// Only the actions a player takes for their own seat; dealing and moving rounds on are the room's job
+const isPlayerAction = (action: unknown): action is GameAction => {
+  if (!isRecord(action) || typeof action.playerId !== 'string') return false;
+  switch (action.type) {
+    case 'FIRST_SWAP_DECISION':
+    case 'OTHERS_SWAP_DECISION':
+    case 'MINIGAME_SWAP':
+      return typeof action.wantsToSwap === 'boolean';
+    case 'SWAP_CARDS':
+    case 'PLAY_CARDS':
+      return isCardList(action.cards);
+    case 'VOTE_DECISION': return typeof action.wantsToVote === 'boolean';
+    case 'VOTE': return typeof action.amount === 'number';
+    case 'FINAL_SWAP_DECISION': return typeof action.participate === 'boolean';
+    case 'SELECT_ONE_CARD_SWAP': return isCard(action.card);
+    case 'ONE_CARD_SWAP_DECISION': return typeof action.keep === 'boolean';
+    default: return false;
+  }
+};
+
+// Why a message cannot be handled, or undefined when it has every field its type needs
+const describeInvalidMessage = (message: unknown): string | undefined => {
+  if (!isRecord(message)) return 'Messages must be JSON objects.';
+  switch (message.type) {
+    case 'CREATE_ROOM':
+      if (typeof message.name !== 'string' || typeof message.seatCount !== 'number') return 'Creating a room needs a name and a number of seats.';
+      if (message.rules === undefined) return undefined;
+      return isRecord(message.rules) ? describeInvalidRules(message.rules) : 'Room rules must be an object.';
+    case 'JOIN_ROOM':
+      if (typeof message.code !== 'string' || typeof message.name !== 'string') return 'Joining a room needs its code and a name.';
+      return message.token === undefined || typeof message.token === 'string' ? undefined : 'Seats are reclaimed with the token they were given.';
+    case 'START_GAME':
+      return undefined;
+    case 'ACTION':
+      return isPlayerAction(message.action) ? undefined : 'That is not a valid action.';
+    default:
+      return 'Unknown message.';
+  }
+};
+
+const routeMessage = (connection: Connection, seat: SeatRef | undefined, message: ClientMessage): SeatRef | undefined => {
+  const sendError = (text: string) => connection.send({ type: 'ERROR', message: text });
+
+  switch (message.type) {
+    case 'CREATE_ROOM':
+    case 'JOIN_ROOM': {
+      if (seat) {
+        sendError('You are already in a room.');
+        return seat;
+      }
+      const result = message.type === 'CREATE_ROOM'
+        ? createRoom(connection, message.name, message.seatCount, message.rules)
+        : joinRoom(connection, message.code, message.name, message.token);
+      if (result.ok === false) {
+        sendError(result.message);
+        return undefined;
+      }
+      // JOINED goes out after the room broadcast, so clients already know the room when they learn their seat
+      // The token goes to this connection alone
+      connection.send({ type: 'JOINED', code: result.room.code, playerId: result.playerId, token: result.token });
+      return { room: result.room, playerId: result.playerId };
+    }
+    case 'START_GAME':
+    case 'ACTION': {
+      if (!seat) {
+        sendError('Join a room first.');
+        return undefined;
+      }
+      const error = message.type === 'START_GAME'
+        ? startRoomGame(seat.room, seat.playerId)
+        : applyPlayerAction(seat.room, seat.playerId, message.action);
+      if (error) sendError(error);
+      return seat;
+    }
+  }
+};
+
+// Handles one message from a connection and returns the seat the connection holds afterwards. A message
+// that is malformed, or that fails while being handled, is answered with an error to its sender alone.
+export const handleClientMessage = (connection: Connection, seat: SeatRef | undefined, message: unknown): SeatRef | undefined => {
+  const problem = describeInvalidMessage(message);
+  if (problem) {
+    connection.send({ type: 'ERROR', message: problem });
+    return seat;
+  }
+  try {
+    return routeMessage(connection, seat, message as ClientMessage);
+  } catch (error) {
+    console.error(`[ROOM ${seat?.room.code ?? '-'}] Could not handle a ${(message as ClientMessage).type} message:`, error);
+    connection.send({ type: 'ERROR', message: 'Something went wrong with that message.' });
+    return seat;
+  }
+};
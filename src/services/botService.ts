@@ -0,0 +1,92 @@
+import { BotTask, BotWorkerRequest, BotWorkerResponse, GameAction, GameState } from '../../types';
+import { DEFAULT_EXTERNAL_BOT_URL, EXTERNAL_BOT, buildExternalBotRequest, decideBotAction, requestExternalBotAction, runBotTask } from '../bots';
+
+// Bots decide in a Web Worker so the UI thread only hands over the table and gets a move back
+export interface BotDecision {
+  promise: Promise<GameAction | undefined>; // Resolves with undefined if the decision was cancelled
+  cancel: () => void;
+}
+
+interface PendingDecision {
+  request: BotWorkerRequest;
+  resolve: (action?: GameAction) => void;
+}
+
+let worker: Worker | undefined;
+let nextId = 0;
+const pending = new Map<number, PendingDecision>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('../bots/bot.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<BotWorkerResponse>) => {
+      const decision = pending.get(event.data.id);
+      pending.delete(event.data.id);
+      decision?.resolve(event.data.action);
+    };
+    worker.onerror = (error) => {
+      // Without a working worker, bots still have to move: decide on this thread instead
+      console.warn("The bot worker failed, deciding on the main thread:", error);
+      pending.forEach(({ request, resolve }) => resolve(runBotTask(request)));
+      pending.clear();
+      worker?.terminate();
+      worker = undefined;
+    };
+  }
+  return worker;
+};
+
+// External bots are asked over HTTP, which does not hold up the UI thread, so they skip the worker
+const requestExternalDecision = (state: GameState, playerId: string, url: string): BotDecision => {
+  const controller = new AbortController();
+  const request = buildExternalBotRequest(state, playerId);
+  const promise = request
+    ? requestExternalBotAction(url, request, controller.signal).catch((error): GameAction | undefined => {
+        if (controller.signal.aborted) return undefined;
+        console.warn(`The external bot at ${url} did not make a move, so the standard bot makes it:`, error);
+        return decideBotAction(state, playerId);
+      })
+    : Promise.resolve(undefined);
+  return { promise, cancel: () => controller.abort() };
+};
+
+// Hands a request to the worker, or answers it on this thread on the next tick where there are no workers
+const requestFromWorker = (task: BotTask, state: GameState, playerId: string, seed: string): BotDecision => {
+  const request: BotWorkerRequest = { id: nextId++, task, state, playerId, seed };
+  if (typeof Worker === 'undefined') {
+    let cancelled = false;
+    const promise = new Promise<GameAction | undefined>(resolve =>
+      setTimeout(() => resolve(cancelled ? undefined : runBotTask(request))));
+    return { promise, cancel: () => { cancelled = true; } };
+  }
+
+  const promise = new Promise<GameAction | undefined>(resolve => pending.set(request.id, { request, resolve }));
+  getWorker().postMessage(request);
+
+  const cancel = () => {
+    const decision = pending.get(request.id);
+    if (!decision) return;
+    pending.delete(request.id);
+    decision.resolve(undefined);
+    // A search cannot be interrupted, so the busy worker is replaced and handed whatever is still waiting
+    worker?.terminate();
+    worker = undefined;
+    pending.forEach(({ request: waiting }) => getWorker().postMessage(waiting));
+  };
+  return { promise, cancel };
+};
+
+// Asks for the bot's next action, drawing its random numbers from `seed`. `state` should already be redacted
+// to what the bot's seat can see.
+export const requestBotAction = (state: GameState, playerId: string, seed: string): BotDecision => {
+  const player = state.players.find(p => p.id === playerId);
+  if (player?.botName === EXTERNAL_BOT) {
+    return requestExternalDecision(state, playerId, player.botUrl || DEFAULT_EXTERNAL_BOT_URL);
+  }
+  return requestFromWorker(BotTask.MOVE, state, playerId, seed);
+};
+
+// Asks for the play to suggest to a human who wants a hint, as a PLAY_CARDS action. `state` should already be
+// redacted to what their seat can see.
+export const requestPlayHint = (state: GameState, playerId: string, seed: string): BotDecision =>
+  requestFromWorker(BotTask.HINT, state, playerId, seed);
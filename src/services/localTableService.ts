@@ -0,0 +1,108 @@
+import { ClientMessage, ServerMessage } from '../../types';
+import { Connection, SeatRef, handleClientMessage, hasRoom, leaveRoom } from '../multiplayer/rooms';
+import { MultiplayerConnection } from './multiplayerService';
+
+// Cross-tab tables for "Play with Friends" without a server: the tab that creates a room hosts it
+// (it runs the same rooms as server/), and other tabs on this device join over a BroadcastChannel.
+const CHANNEL_NAME = 'gurch.tables';
+const JOIN_TIMEOUT = 2000; // How long to wait for a hosting tab to answer a join
+
+type Envelope =
+  | { kind: 'CLIENT'; from: string; to?: string; message: ClientMessage } // `to` is unset while looking for a room's host
+  | { kind: 'SERVER'; from: string; to: string; message: ServerMessage }
+  | { kind: 'LEFT'; from: string; to: string } // A guest tab left its host's table
+  | { kind: 'CLOSED'; from: string; to: string }; // The host tab closed the table
+
+export const connectToLocalTable = (
+  onMessage: (message: ServerMessage) => void,
+  onClose: () => void,
+): Promise<MultiplayerConnection> => new Promise((resolve, reject) => {
+  if (typeof BroadcastChannel === 'undefined') {
+    reject(new Error('This browser cannot share a table between tabs.'));
+    return;
+  }
+
+  const tabId = Math.random().toString(36).slice(2, 10);
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const post = (envelope: Envelope) => channel.postMessage(envelope);
+
+  // As host: this tab's own seat and the seats of the guest tabs, by tab id
+  const ownConnection: Connection = { send: onMessage };
+  let ownSeat: SeatRef | undefined;
+  const guestSeats = new Map<string, SeatRef>();
+  // As guest: the tab hosting the table this tab joined
+  let hostTabId: string | undefined;
+  let joinTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const guestConnection = (guestId: string): Connection => ({
+    send: (message) => post({ kind: 'SERVER', from: tabId, to: guestId, message }),
+  });
+
+  channel.onmessage = (event: MessageEvent<Envelope>) => {
+    const envelope = event.data;
+    if (envelope.from === tabId) return;
+
+    switch (envelope.kind) {
+      case 'CLIENT': {
+        const { message } = envelope;
+        const isForThisTab = envelope.to === tabId || (!envelope.to && message.type === 'JOIN_ROOM' && hasRoom(message.code));
+        if (!isForThisTab || !ownSeat) return;
+        const seat = handleClientMessage(guestConnection(envelope.from), guestSeats.get(envelope.from), message);
+        if (seat) guestSeats.set(envelope.from, seat);
+        return;
+      }
+      case 'SERVER':
+        if (envelope.to !== tabId) return;
+        clearTimeout(joinTimer);
+        if (envelope.message.type === 'JOINED') hostTabId = envelope.from;
+        onMessage(envelope.message);
+        return;
+      case 'LEFT': {
+        const seat = guestSeats.get(envelope.from);
+        if (envelope.to !== tabId || !seat) return;
+        guestSeats.delete(envelope.from);
+        leaveRoom(seat.room, seat.playerId);
+        return;
+      }
+      case 'CLOSED':
+        if (envelope.to !== tabId || envelope.from !== hostTabId) return;
+        close();
+        onClose();
+        return;
+    }
+  };
+
+  const send = (message: ClientMessage) => {
+    if (closed) return;
+    if (message.type === 'CREATE_ROOM' || ownSeat) {
+      // This tab hosts: its messages go straight to its own room
+      ownSeat = handleClientMessage(ownConnection, ownSeat, message);
+    } else {
+      post({ kind: 'CLIENT', from: tabId, to: hostTabId, message });
+      if (message.type === 'JOIN_ROOM') {
+        // Only the hosting tab answers, so silence means no open tab has this room
+        joinTimer = setTimeout(() => onMessage({ type: 'ERROR', message: `No tab on this device is hosting room ${message.code}.` }), JOIN_TIMEOUT);
+      }
+    }
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearTimeout(joinTimer);
+    window.removeEventListener('pagehide', close);
+    if (ownSeat) {
+      guestSeats.forEach((_, guestId) => post({ kind: 'CLOSED', from: tabId, to: guestId }));
+      guestSeats.forEach(seat => leaveRoom(seat.room, seat.playerId));
+      leaveRoom(ownSeat.room, ownSeat.playerId);
+    } else if (hostTabId) {
+      post({ kind: 'LEFT', from: tabId, to: hostTabId });
+    }
+    channel.close();
+  };
+
+  // Closing or reloading the tab leaves the table, so a guest can rejoin its seat afterwards
+  window.addEventListener('pagehide', close);
+  resolve({ send, close });
+});
@@ -0,0 +1,65 @@
+import { ClientMessage, ServerMessage } from '../../types';
+
+// WebSocket client for "Play with Friends". The server (see server/) owns the game; this only carries messages.
+const DEFAULT_PORT = 8787;
+
+export interface MultiplayerConnection {
+  send: (message: ClientMessage) => void;
+  close: () => void;
+}
+
+const getServerUrl = (): string =>
+  import.meta.env.VITE_GURCH_SERVER_URL || `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.hostname}:${DEFAULT_PORT}`;
+
+// Resolves once the socket is open. `onClose` only fires for a connection that was established.
+export const connectToServer = (
+  onMessage: (message: ServerMessage) => void,
+  onClose: () => void,
+): Promise<MultiplayerConnection> => new Promise((resolve, reject) => {
+  const socket = new WebSocket(getServerUrl());
+  let opened = false;
+
+  socket.onopen = () => {
+    opened = true;
+    resolve({
+      send: (message) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      },
+      close: () => socket.close(),
+    });
+  };
+  socket.onmessage = (event) => {
+    try {
+      onMessage(JSON.parse(event.data));
+    } catch (error) {
+      console.warn("Ignoring an unreadable server message:", error);
+    }
+  };
+  socket.onerror = () => {
+    if (!opened) reject(new Error(`Could not reach the game server at ${getServerUrl()}.`));
+  };
+  socket.onclose = () => {
+    if (opened) onClose();
+  };
+});
+
+// The token of the seat this tab last held, so a reload or dropped connection can rejoin the same game.
+// It is the only proof the seat is ours, so it stays in this tab.
+const SEAT_KEY = 'gurch.onlineSeat';
+
+export const rememberSeat = (code: string, token: string): void => {
+  try {
+    sessionStorage.setItem(SEAT_KEY, JSON.stringify({ code, token }));
+  } catch (error) {
+    console.warn("Could not remember the online seat:", error);
+  }
+};
+
+export const getRememberedSeat = (code: string): string | undefined => {
+  try {
+    const seat = JSON.parse(sessionStorage.getItem(SEAT_KEY) ?? 'null');
+    return seat && seat.code === code ? seat.token : undefined;
+  } catch {
+    return undefined;
+  }
+};
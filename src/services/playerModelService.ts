@@ -0,0 +1,60 @@
+import { GameAction, GameState, PlayerModel } from '../../types';
+import { emptyPlayerModel, learnFromAction } from '../bots';
+
+// Keeps what the bots have learned about each human's habits in localStorage, by player name, so it
+// carries over from game to game. Learning can be switched off, and everything learned forgotten.
+const MODELS_KEY = 'gurch.playerModels';
+const LEARNING_KEY = 'gurch.learningEnabled';
+
+const loadModels = (): { [profile: string]: PlayerModel } => {
+  try {
+    const raw = localStorage.getItem(MODELS_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.warn("Ignoring unreadable player models:", error);
+    return {};
+  }
+};
+
+export const isLearningEnabled = (): boolean => {
+  try {
+    return localStorage.getItem(LEARNING_KEY) !== 'false';
+  } catch {
+    return false;
+  }
+};
+
+export const setLearningEnabled = (enabled: boolean): void => {
+  try {
+    localStorage.setItem(LEARNING_KEY, String(enabled));
+  } catch (error) {
+    console.warn("Could not save the learning setting:", error);
+  }
+};
+
+// The habits learned for a player, or undefined if learning is off or nothing has been learned yet
+export const loadPlayerModel = (profile: string): PlayerModel | undefined =>
+  isLearningEnabled() ? loadModels()[profile] : undefined;
+
+// Adds a human's accepted action to what is known of their habits; `state` is the table before the action
+export const learnFromPlayer = (profile: string, state: GameState, action: GameAction): void => {
+  if (!isLearningEnabled()) return;
+  const models = loadModels();
+  const current = models[profile] ?? emptyPlayerModel();
+  const model = learnFromAction(current, state, action);
+  if (model === current) return;
+  try {
+    localStorage.setItem(MODELS_KEY, JSON.stringify({ ...models, [profile]: model }));
+  } catch (error) {
+    // Storage can be full or disabled (private browsing); the bots just stop learning
+    console.warn("Could not save the player model:", error);
+  }
+};
+
+export const resetPlayerModels = (): void => {
+  try {
+    localStorage.removeItem(MODELS_KEY);
+  } catch (error) {
+    console.warn("Could not clear the player models:", error);
+  }
+};
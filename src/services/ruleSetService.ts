@@ -0,0 +1,33 @@
+import { RuleSet } from '../../types';
+import { STANDARD_RULES } from '../engine';
+
+// Keeps the house rules made in the lobby's editor in localStorage, by name, so a table can pick them again
+const STORAGE_KEY = 'gurch.ruleSets';
+
+export const loadSavedRuleSets = (): RuleSet[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const ruleSets = raw ? JSON.parse(raw) : [];
+    // Rules saved before a rule was added play it the standard way
+    return Array.isArray(ruleSets) ? ruleSets.map(r => ({ ...STANDARD_RULES, ...r })) : [];
+  } catch (error) {
+    console.warn("Ignoring unreadable saved rules:", error);
+    return [];
+  }
+};
+
+const storeRuleSets = (ruleSets: RuleSet[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ruleSets));
+  } catch (error) {
+    // Storage can be full or disabled (private browsing); the rules still apply to the next game
+    console.warn("Could not save the rules:", error);
+  }
+};
+
+// Saving under a name that is already taken replaces those rules
+export const saveRuleSet = (rules: RuleSet): void =>
+  storeRuleSets([...loadSavedRuleSets().filter(r => r.name !== rules.name), rules]);
+
+export const deleteSavedRuleSet = (name: string): void =>
+  storeRuleSets(loadSavedRuleSets().filter(r => r.name !== name));
@@ -0,0 +1,36 @@
+import { GameLog, Match, SavedGame } from '../../types';
+
+// Saves the in-progress game to localStorage so a reload can pick up where the player left off
+const STORAGE_KEY = 'gurch.savedGame';
+const SAVE_VERSION = 1;
+
+export const saveGame = (log: GameLog, match?: Match): void => {
+  const saved: SavedGame = { version: SAVE_VERSION, savedAt: Date.now(), log, match };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch (error) {
+    // Storage can be full or disabled (private browsing); the game itself keeps working
+    console.warn("Could not save the game:", error);
+  }
+};
+
+export const loadSavedGame = (): SavedGame | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const saved = JSON.parse(raw) as SavedGame;
+    if (saved.version !== SAVE_VERSION || !saved.log || !Array.isArray(saved.log.actions)) return null;
+    return saved;
+  } catch (error) {
+    console.warn("Ignoring an unreadable saved game:", error);
+    return null;
+  }
+};
+
+export const clearSavedGame = (): void => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn("Could not clear the saved game:", error);
+  }
+};
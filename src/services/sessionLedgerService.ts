@@ -0,0 +1,32 @@
+import { LedgerEntry } from '../../types';
+
+// Keeps the session's ledger of who owes whom in localStorage until the players start a new session
+const STORAGE_KEY = 'gurch.sessionLedger';
+
+export const loadLedger = (): LedgerEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const entries = raw ? JSON.parse(raw) : [];
+    return Array.isArray(entries) ? entries : [];
+  } catch (error) {
+    console.warn("Ignoring an unreadable ledger:", error);
+    return [];
+  }
+};
+
+export const addToLedger = (entry: LedgerEntry): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...loadLedger(), entry]));
+  } catch (error) {
+    // Storage can be full or disabled (private browsing); the game itself keeps working
+    console.warn("Could not record the game in the ledger:", error);
+  }
+};
+
+export const clearLedger = (): void => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn("Could not clear the ledger:", error);
+  }
+};
@@ -0,0 +1,164 @@
+import { GameAction, GamePhase, GameState, Player, RuleSet } from '../../types';
+import { applyAction, createDeck, createGame, createRng, redactState, shuffleDeck } from '../engine';
+import { decideBotAction } from '../bots';
+
+// Headless bot-vs-bot games for tuning bots and checking the rules' balance. Games run straight
+// through the rules engine with no UI or timers, and deal from seeds like a local game, so a run
+// can be repeated exactly (the time limits on the master bot's search and the expert's endgame aside).
+
+const MAX_GAME_STEPS = 5000; // A game that runs longer than this is reported as stuck
+
+export interface SimulationOptions {
+  games: number;
+  seats: string[]; // The registered bot in each seat, 3 or 4 of them
+  seed?: string; // Game n is played from `${seed}:${n}`
+  rotateSeats?: boolean; // Moves every bot one seat along each game so no policy keeps the best seat; on by default
+  rules?: RuleSet; // House rules for every game; the standard rules if unset
+}
+
+export interface SeatReport {
+  name: string;
+  botName: string;
+  wins: number;
+  losses: number;
+  winRate: number;
+  averagePrize: number; // Prize per game won
+  netPrize: number; // Prizes won minus prizes paid, per game played
+}
+
+export interface SimulationReport {
+  games: number;
+  finishedGames: number;
+  seats: SeatReport[];
+  starterWinRate: number; // How often the player who starts (highest face-up card) wins
+  minigameRate: number; // How often a tie sends the game to a minigame
+  voteResults: { [amount: number]: number }; // Games by the vote result; 0 means no vote was held
+  errors: string[];
+}
+
+export interface GameSummary {
+  finalState: GameState;
+  starterId?: string;
+  voteResult?: number;
+  hadMinigame: boolean;
+  error?: string;
+}
+
+// The bots' names tell them apart in reports, numbered when a bot appears twice
+const nameSeats = (seats: string[]): string[] => seats.map((botName, i) => {
+  const isRepeated = seats.filter(name => name === botName).length > 1;
+  return isRepeated ? `${botName} ${seats.slice(0, i + 1).filter(name => name === botName).length}` : botName;
+});
+
+// Plays one game to the end. Seats are bots in the given order; the dealer is picked from the seed.
+export const simulateGame = (players: Player[], seed: string, rules?: RuleSet): GameSummary => {
+  const dealerIndex = Math.floor(createRng(`${seed}:dealer`)() * players.length);
+  const botRandom = createRng(`${seed}:bots`);
+  let state = createGame(players, dealerIndex, seed, undefined, rules);
+  let dealCount = 0;
+  let starterId: string | undefined;
+  let voteResult: number | undefined;
+  let hadMinigame = false;
+
+  for (let step = 0; step < MAX_GAME_STEPS; step++) {
+    if (state.gamePhase === GamePhase.GAME_OVER) return { finalState: state, starterId, voteResult, hadMinigame };
+
+    // The swaps are settled once play starts; the first trick of the main game records them
+    if (state.gamePhase === GamePhase.GAMEPLAY && starterId === undefined) {
+      starterId = state.starterPlayerId;
+      voteResult = state.voteResult;
+    }
+    if ((state.minigamePlayers ?? []).length > 0) hadMinigame = true;
+
+    let action: GameAction | undefined;
+    if (state.gamePhase === GamePhase.DEALING) {
+      action = { type: 'DEAL', deck: shuffleDeck(createDeck(), createRng(`${seed}:deal:${dealCount++}`)) };
+    } else if (state.gamePhase === GamePhase.ROUND_OVER) {
+      action = { type: 'NEXT_ROUND' };
+    } else {
+      // Bots only see the table from their own seat, as they do in the app and on the server
+      const playerId = state.players[state.currentPlayerIndex].id;
+      action = decideBotAction(redactState(state, playerId), playerId, botRandom);
+    }
+    if (!action) {
+      return { finalState: state, starterId, voteResult, hadMinigame, error: `No bot could act during ${state.gamePhase}.` };
+    }
+
+    const result = applyAction(state, action);
+    if (result.ok === false) {
+      return { finalState: state, starterId, voteResult, hadMinigame, error: `${action.type} rejected: ${result.error.message}` };
+    }
+    state = result.state;
+  }
+  return { finalState: state, starterId, voteResult, hadMinigame, error: `Game did not finish within ${MAX_GAME_STEPS} steps.` };
+};
+
+export const runSimulation = ({ games, seats, seed = 'SIM', rotateSeats = true, rules }: SimulationOptions): SimulationReport => {
+  const names = nameSeats(seats);
+  const totals = seats.map(() => ({ wins: 0, losses: 0, prizeWon: 0, prizePaid: 0 }));
+  const voteResults: { [amount: number]: number } = {};
+  const errors: string[] = [];
+  let finishedGames = 0;
+  let starterWins = 0;
+  let minigames = 0;
+
+  for (let game = 0; game < games; game++) {
+    // Bot b sits in seat (b + game) % seats when rotating
+    const shift = rotateSeats ? game % seats.length : 0;
+    const order = seats.map((_, seat) => (seat - shift + seats.length) % seats.length);
+    const players: Player[] = order.map(bot => ({
+      id: `bot-${bot}`,
+      name: names[bot],
+      avatar: '',
+      hand: [],
+      playedCards: [],
+      isHuman: false,
+      score: 0,
+      botName: seats[bot],
+    }));
+
+    const gameSeed = `${seed}:${game}`;
+    const summary = simulateGame(players, gameSeed, rules);
+    if (summary.error) {
+      errors.push(`Game ${gameSeed}: ${summary.error}`);
+      continue;
+    }
+
+    const { finalState } = summary;
+    const prize = finalState.prize ?? 0;
+    finishedGames++;
+    order.forEach(bot => {
+      if (finalState.gameWinnerId === `bot-${bot}`) {
+        totals[bot].wins++;
+        totals[bot].prizeWon += prize;
+      }
+      if (finalState.gameLoserId === `bot-${bot}`) {
+        totals[bot].losses++;
+        totals[bot].prizePaid += prize;
+      }
+    });
+    if (summary.starterId !== undefined && summary.starterId === finalState.gameWinnerId) starterWins++;
+    if (summary.hadMinigame) minigames++;
+    const vote = summary.voteResult ?? 0;
+    voteResults[vote] = (voteResults[vote] ?? 0) + 1;
+  }
+
+  const rate = (count: number) => finishedGames > 0 ? count / finishedGames : 0;
+  return {
+    games,
+    finishedGames,
+    seats: seats.map((botName, bot) => ({
+      name: names[bot],
+      botName,
+      wins: totals[bot].wins,
+      losses: totals[bot].losses,
+      winRate: rate(totals[bot].wins),
+      averagePrize: totals[bot].wins > 0 ? totals[bot].prizeWon / totals[bot].wins : 0,
+      netPrize: rate(totals[bot].prizeWon - totals[bot].prizePaid),
+    })),
+    starterWinRate: rate(starterWins),
+    minigameRate: rate(minigames),
+    voteResults,
+    errors,
+  };
+};
@@ -0,0 +1,9 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GURCH_SERVER_URL?: string; // WebSocket URL of the multiplayer server (see server/)
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
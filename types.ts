@@ -44,8 +44,84 @@ export interface Player {
   wantsToVote?: boolean;
   hasMadeFirstSwapDecision?: boolean;
   score: number;
+  botName?: string; // The registered bot that plays this seat (see src/bots/registry.ts); unset means STANDARD
+  botUrl?: string; // Where an external bot seat is asked for its decisions
+  botPersonality?: BotPersonality; // Playing style layered over the bot's strategy
+  tendencies?: PlayerModel; // A human's habits as learned over earlier games, for the bots to play against
+  chips?: number; // Chip balance, in games played for chips
 }
 
+// What bots have learned about a human's habits, counted over every game they have played on this device
+export interface PlayerModel {
+  swapChances: number; // Swap decisions the player has made
+  stoodPat: number; // Of those, the ones where they kept their hand
+  votes: { [amount: number]: number }; // How often they picked each vote amount
+  leads: number;
+  setLeads: number; // Leads of two or more cards
+  highLeads: number; // Leads of a Jack or higher
+}
+
+// Names of the built-in bots, easiest first
+export enum BotDifficulty {
+  BEGINNER = 'BEGINNER',
+  STANDARD = 'STANDARD',
+  EXPERT = 'EXPERT',
+  MASTER = 'MASTER', // Searches possible deals with the rules engine
+}
+
+// Playing styles a bot can have on top of its difficulty (see src/bots/personalities.ts)
+export enum BotPersonality {
+  AGGRESSIVE = 'AGGRESSIVE', // Keeps its high cards and takes every trick it can
+  CONSERVATIVE = 'CONSERVATIVE', // Builds a low hand to go out on and rarely gambles on swaps
+  BLUFFER = 'BLUFFER', // Votes for big swaps when its hand is strong and small ones when it is weak
+}
+
+// How a personality leans a bot. Each bot reads it where its own judgement has a dial, so a bot with a
+// personality still plays by its own strategy (see NEUTRAL_STYLE in src/bots/standardBot.ts).
+export interface BotStyle {
+  swapBias: number; // Added to the hand quality below which the bot swaps, matches a swap or joins the final swap
+  voteBias: number; // Added to the hand quality below which the bot votes
+  voteShift: number; // Cards added to the swap the bot votes for
+  bluffsVotes: boolean; // Turns its vote upside down: a big swap with a strong hand, a small one with a weak hand
+  discardBias: number; // Above 0 gives up high cards first among equally weak ones, below 0 low cards
+  riskAppetite: number; // For bots that weigh outcomes: above 0 chases the win, below 0 fears the loss more
+}
+
+// Moments a bot with a personality has something to say about
+export enum PersonalityMoment {
+  SWAP = 'SWAP',
+  STAND_PAT = 'STAND_PAT',
+  VOTE = 'VOTE',
+  TAKE_TRICK = 'TAKE_TRICK',
+}
+
+// One bot's strategy: a method for every swap, vote and play decision, each given the bot's own hand.
+// Implement this and register it by name (see src/bots/registry.ts) to add an AI player.
+export interface GurchBot {
+  wantsFirstSwap: (hand: Card[]) => boolean;
+  wantsToMatchSwap: (hand: Card[]) => boolean;
+  wantsToVote: (hand: Card[]) => boolean;
+  chooseVoteAmount: (hand: Card[]) => number;
+  wantedSwap?: (hand: Card[]) => number; // How many cards it really wants to swap, when its vote is a bluff
+  wantsFinalSwap: (hand: Card[]) => boolean;
+  chooseSwapCards: (hand: Card[], count: number) => Card[];
+  chooseOneCardToSwap: (hand: Card[]) => Card;
+  keepsRevealedCard: (hand: Card[], revealedCard: Card) => boolean;
+  wantsMinigameSwap: (hand: Card[]) => boolean;
+  choosePlay: (hand: Card[], legalPlays: LegalPlay[]) => Card[];
+}
+
+// What a bot is made with for each decision: the table as its seat sees it, where to get random numbers,
+// and the lean of the seat's personality
+export interface BotContext {
+  state: GameState;
+  playerId: string;
+  random: Rng;
+  style: BotStyle;
+}
+
+export type GurchBotFactory = (context: BotContext) => GurchBot;
+
 export interface TrickPlay {
   playerId: string;
   cards: Card[];
@@ -79,6 +155,16 @@ export enum GamePhase {
   MINIGAME_SWAP = 'MINIGAME_SWAP',
 }
 
+// What the whole table has seen during the current deal, which players (and bots) may keep track of.
+// Other players' swaps are face down, so only how many cards they swapped is recorded.
+export interface DealRecord {
+  playedCards: Card[]; // Every card played in this deal's tricks, including cleared ones
+  swapCounts: { [playerId: string]: number }; // Cards each player has swapped away
+  stoodPat: string[]; // Players who turned down a chance to swap
+  votes: { [playerId: string]: number };
+  revealedCards: { playerId: string; card: Card; kept: boolean }[]; // One-card swap reveals and whether they were kept
+}
+
 export interface GameState {
   players: Player[];
   deck: Card[];
@@ -101,10 +187,307 @@ export interface GameState {
   minigamePlayers?: string[];
   revealedCard?: Card;
   cardToSwap?: Card;
+  minigameTieType?: 'WINNER' | 'LOSER'; // Which tie the running minigame settles
+  minigameLoserTie?: string[]; // Players tied for the loss, who play it off once the winner's minigame is settled
+  prize?: number;
+  seed?: string; // Seed the deals were shuffled from, so a game can be reproduced
+  dealRecord?: DealRecord; // Unset until the first deal
+  ante?: number; // Set when the game is played for chips: what each player pays into the pot (see src/engine/chips.ts)
+  pot?: number;
+  chipLedger?: ChipTransfer[]; // Every chip that changed hands this game, in order
+  rules?: RuleSet; // House rules the game is played by; unset is the standard rules
+  discards?: Card[]; // Cards swapped away this deal, shuffled back in if the deck runs short
+}
+
+// The details of the deal, the vote and the minigame that tables play differently (see src/engine/ruleSets.ts)
+export enum RuleSetId {
+  STANDARD = 'STANDARD',
+  QUICK = 'QUICK',
+  FAMILY = 'FAMILY',
+  CUSTOM = 'CUSTOM', // Made in the lobby's rules editor
+}
+
+export enum VoteTieBreak {
+  LOWEST = 'LOWEST',
+  HIGHEST = 'HIGHEST',
+}
+
+export interface RuleSet {
+  id: RuleSetId;
+  name: string;
+  description: string;
+  faceDownCards: number; // Dealt to each player before their one face-up card
+  hasVote: boolean; // Without the vote, play starts as soon as the first swap is answered
+  minVote: number;
+  maxVote: number;
+  voteTieBreak: VoteTieBreak; // Which amount a tied vote goes to
+  zeroVoteCanWin: boolean; // Whether a vote to swap 0 cards can carry; if not, the lowest other vote does
+  oneCardReveal: boolean; // A vote for 1 card shows the new card first, and a declined one is replaced from the deck
+  allowEqualAndSacrifice: boolean; // A follower who cannot beat the lead may play an equal card with their lowest cards
+  minigameHandSize: number;
+  handLimit: number; // Hands are cut to this many cards when play starts
+}
+
+// Playing for chips: everyone antes into a pot each game, and the winner takes the pot plus the prize
+// from the loser. A player who runs out of chips is out.
+export interface ChipSettings {
+  startingChips: number;
+  ante: number;
+}
+
+export enum ChipReason {
+  ANTE = 'ANTE',
+  POT = 'POT',
+  PRIZE = 'PRIZE',
+}
+
+export interface ChipTransfer {
+  playerId: string;
+  amount: number; // Chips received; negative for chips paid
+  reason: ChipReason;
+}
+
+// Source of random numbers in [0, 1), like Math.random
+export type Rng = () => number;
+
+// Actions accepted by the rules engine (src/engine). Every action except DEAL and
+// NEXT_ROUND is made by a specific player and is only valid on their turn.
+export type GameAction =
+  | { type: 'DEAL'; deck: Card[] }
+  | { type: 'FIRST_SWAP_DECISION'; playerId: string; wantsToSwap: boolean }
+  | { type: 'OTHERS_SWAP_DECISION'; playerId: string; wantsToSwap: boolean }
+  | { type: 'SWAP_CARDS'; playerId: string; cards: Card[] }
+  | { type: 'VOTE_DECISION'; playerId: string; wantsToVote: boolean }
+  | { type: 'VOTE'; playerId: string; amount: number }
+  | { type: 'FINAL_SWAP_DECISION'; playerId: string; participate: boolean }
+  | { type: 'SELECT_ONE_CARD_SWAP'; playerId: string; card: Card }
+  | { type: 'ONE_CARD_SWAP_DECISION'; playerId: string; keep: boolean }
+  | { type: 'PLAY_CARDS'; playerId: string; cards: Card[] }
+  | { type: 'NEXT_ROUND' }
+  | { type: 'MINIGAME_SWAP'; playerId: string; wantsToSwap: boolean };
+
+// Everything needed to rebuild a game: the seats it started with and every action the engine accepted, in order
+export interface GameLog {
+  seed?: string;
+  dealerIndex: number;
+  players: Player[];
+  actions: GameAction[];
+  ante?: number; // Set for games played for chips
+  rules?: RuleSet; // Set for games played by house rules
+}
+
+// A game in progress as kept in browser storage; the table is rebuilt by replaying the log
+export interface SavedGame {
+  version: number;
+  savedAt: number;
+  log: GameLog;
+  match?: Match; // Set when the game is part of a match
+}
+
+// A match is a series of games with the scores carried over, ending at a target score or after a set
+// number of deals (see src/engine/match.ts). Each game is one deal, plus any minigames it needs.
+export interface MatchSettings {
+  targetScore?: number; // The match ends once someone's score reaches this
+  dealLimit?: number; // The match ends after this many games
+  chips?: ChipSettings; // Play for chips; the match also ends when too few players have chips left
+}
+
+export interface MatchGameResult {
+  seed: string;
+  winnerId?: string;
+  loserId?: string;
+  prize: number;
+  chipTransfers?: ChipTransfer[];
+}
+
+export interface Match {
+  settings: MatchSettings;
+  seed: string; // Game n of the match is dealt from a seed made from this one
+  firstDealerIndex: number; // The deal passes to the next seat each game
+  games: MatchGameResult[]; // Finished games, oldest first
+  busted?: Player[]; // Players who ran out of chips, as they were when they left
+}
+
+// One finished game in a session's ledger of who owes whom (see src/engine/ledger.ts)
+export interface LedgerEntry {
+  playedAt: number;
+  seed?: string;
+  winner: string; // Player names
+  loser: string;
+  winnerId?: string; // Player ids, which tell apart players with the same name; unset in older entries
+  loserId?: string;
+  prize: number; // What the loser owes the winner
+}
+
+export interface LedgerBalance {
+  playerId: string; // The player's id, or their name for entries recorded without ids
+  player: string; // Their name in the latest game
+  amount: number; // Up over the session if positive, down if negative
+}
+
+export interface LedgerSettlement {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export interface MatchStanding {
+  player: Player;
+  prizes: number[]; // Prize won in each game of the match, 0 for games the player did not win
+}
+
+export enum EngineErrorCode {
+  WRONG_PHASE = 'WRONG_PHASE',
+  NOT_YOUR_TURN = 'NOT_YOUR_TURN',
+  UNKNOWN_PLAYER = 'UNKNOWN_PLAYER',
+  CARDS_NOT_IN_HAND = 'CARDS_NOT_IN_HAND',
+  INVALID_SWAP = 'INVALID_SWAP',
+  INVALID_VOTE = 'INVALID_VOTE',
+  INVALID_PLAY = 'INVALID_PLAY',
+  NOT_ENOUGH_CARDS = 'NOT_ENOUGH_CARDS',
+}
+
+export interface EngineError {
+  code: EngineErrorCode;
+  message: string;
+  invalidPlay?: PlayValidation; // Set for INVALID_PLAY errors
+}
+
+export type EngineResult =
+  | { ok: true; state: GameState }
+  | { ok: false; error: EngineError };
+
+// How a legal play relates to the commander's cards (see rules.txt, "The Commander")
+export enum PlayKind {
+  LEAD = 'LEAD',
+  WINNING_SET = 'WINNING_SET',
+  BEAT_AND_SACRIFICE = 'BEAT_AND_SACRIFICE',
+  EQUAL_AND_SACRIFICE = 'EQUAL_AND_SACRIFICE',
+  SACRIFICE = 'SACRIFICE',
+}
+
+export interface LegalPlay {
+  kind: PlayKind;
+  cards: Card[];
+}
+
+// Which rule an attempted play breaks
+export enum InvalidPlayReason {
+  CARDS_NOT_IN_HAND = 'CARDS_NOT_IN_HAND',
+  WRONG_COUNT = 'WRONG_COUNT',
+  MIXED_RANKS = 'MIXED_RANKS',
+  MUST_BEAT_WHEN_ABLE = 'MUST_BEAT_WHEN_ABLE',
+  MUST_BEAT_AND_SACRIFICE = 'MUST_BEAT_AND_SACRIFICE',
+  SACRIFICE_NOT_LOWEST = 'SACRIFICE_NOT_LOWEST',
+}
+
+export interface PlayValidation {
+  valid: boolean;
+  kind?: PlayKind; // How a valid play counts against the commander
+  reason?: InvalidPlayReason; // Why an invalid play was rejected
+  requiredCards?: Card[]; // A legal play the broken rule would have demanded, if there is one
+}
+
+// A seat at an online table (see server/). Seats nobody has claimed when the game starts are played by bots.
+export interface RoomSeat {
+  id: string; // Player id the seat plays as
+  name: string;
+  isBot: boolean;
+  connected: boolean;
+}
+
+export interface RoomInfo {
+  code: string;
+  hostId: string;
+  seatCount: number;
+  seats: RoomSeat[];
+  started: boolean;
+  rules: RuleSet; // The house rules the table will play by
+}
+
+// Messages a client sends to the multiplayer server
+export type ClientMessage =
+  | { type: 'CREATE_ROOM'; name: string; seatCount: number; rules?: RuleSet }
+  | { type: 'JOIN_ROOM'; code: string; name: string; token?: string } // The seat's token from JOINED reclaims it after a reconnect
+  | { type: 'START_GAME' }
+  | { type: 'ACTION'; action: GameAction };
+
+// Messages the server sends. STATE carries the table as the receiving player may see it, and the action that produced it.
+export type ServerMessage =
+  | { type: 'JOINED'; code: string; playerId: string; token: string } // The token is secret to this seat's client
+  | { type: 'ROOM'; room: RoomInfo }
+  | { type: 'STATE'; state: GameState; action?: GameAction }
+  | { type: 'ERROR'; message: string };
+
+// How a "Play with Friends" table is reached: the WebSocket server, or other browser tabs on this device
+export enum TableTransport {
+  SERVER = 'SERVER',
+  BROWSER_TABS = 'BROWSER_TABS',
+}
+
+// A game played through the multiplayer server: the latest table it sent, and how to send this seat's actions
+export interface OnlineSession {
+  roomCode: string;
+  state: GameState;
+  lastAction?: GameAction; // The action that produced `state`, if it came from one
+  sendAction: (action: GameAction) => void;
+}
+
+// What the bot worker is asked for: a bot's own move, or the play to suggest to a human who wants a hint
+export enum BotTask {
+  MOVE = 'MOVE',
+  HINT = 'HINT',
+}
+
+// Messages to and from the bot worker. The worker is sent the table as the seat sees it, never the full state.
+export interface BotWorkerRequest {
+  id: number;
+  task: BotTask;
+  state: GameState;
+  playerId: string;
+  seed: string; // The bot draws its random numbers from this, so the same table and seed give the same move
+}
+
+export interface BotWorkerResponse {
+  id: number;
+  action?: GameAction; // Unset if it was not this seat's turn
+}
+
+// External bots: a program in any language can play a seat by answering HTTP requests (see src/bots/externalBot.ts).
+// The decision asked for is named after the action expected back.
+export type ExternalBotDecision = Exclude<GameAction['type'], 'DEAL' | 'NEXT_ROUND'>;
+
+// POSTed as JSON to the bot's URL whenever its seat has a decision to make
+export interface ExternalBotRequest {
+  version: number;
+  playerId: string;
+  decision: ExternalBotDecision;
+  state: GameState; // What the seat can see: other hands and the deck are hidden cards with value 0
+  swapCount?: number; // SWAP_CARDS: how many cards to give up (opening the swap, any number from 1 is allowed)
+  legalPlays?: LegalPlay[]; // PLAY_CARDS: every play the rules allow
+}
+
+// The bot's answer. The action is checked by the rules engine like any other.
+export interface ExternalBotResponse {
+  action: GameAction;
 }
 
 export enum GameMode {
   VS_BOTS = 'VS_BOTS',
   PLAY_FOR_FUN = 'PLAY_FOR_FUN',
   FRIENDS = 'FRIENDS',
+  PASS_AND_PLAY = 'PASS_AND_PLAY', // Several humans sharing one device
+}
+
+// What the lobby chose for a new game on this device
+export interface NewGameOptions {
+  numPlayers: number;
+  mode: GameMode;
+  seed?: string; // Unset deals from a new random seed
+  humanPlayers?: number; // Pass and play: how many of the seats are people; 1 otherwise
+  botNames?: string[]; // The registered bot in each bot seat, in seat order
+  botUrl?: string; // Where external bot seats send their decisions
+  playerName?: string;
+  match?: MatchSettings; // Unset plays a single game
+  rules?: RuleSet; // Unset plays the standard rules
 }